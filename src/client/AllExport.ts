@@ -1,2 +1,3 @@
 export * from './WebBridge';
-export * from './WssBridge';
\ No newline at end of file
+export * from './WssBridge';
+export * from './WssBridgeCodec';
\ No newline at end of file
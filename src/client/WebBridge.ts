@@ -1,7 +1,342 @@
 /**
  * WebServer的客户端
+ * axios相关信息：https://github.com/axios/axios
  */
+import axios from 'axios';
+import CryptoJS from 'crypto-js';
+import type { AxiosInstance, AxiosRequestConfig, AxiosResponse, Method } from 'axios';
+import { WssBridgeResponse } from './WssBridge';
+
+export type WebBridgeParams = { [key: string]: string | number | boolean | (string | number | boolean)[] };
+
+export interface WebBridgeOptions {
+    query?: WebBridgeParams;//附加到url上的查询参数
+    headers?: { [key: string]: string };//本次请求附加的请求头
+    timeout?: number;//本次请求的超时时间（毫秒），不传则使用构造函数中的值
+    retries?: number;//本次请求的失败重试次数，不传则GET请求使用构造函数中的值，其它请求不重试
+    sign?: boolean;//是否对本次请求进行签名，设置了signPwd时默认为true
+}
+
+export interface WebBridgeUploadFile {
+    data: Buffer | Uint8Array | string | Blob;//文件内容，Blob仅浏览器环境下支持
+    name: string;//文件名称
+    type: string;//文件的mimeType，需在WebServerConfig.uploadMimeTypes中允许
+}
+
+export interface WebBridgeUploadResult {
+    _path: string;//相对于WebServerConfig.uploadDir的保存路径
+    _size: number;//文件大小
+    _mimetype: string;//文件的mimeType
+    _orgname: string;//上传时的原始文件名
+    [key: string]: any;//随文件一起提交的其它表单字段
+}
+
 export class WebBridge {
-    constructor() {
+    /**
+     * 签名相关的请求头
+     */
+    public static readonly HEADER_SIGN_TIME = 'x-sign-time';//签名时间戳（毫秒）
+    public static readonly HEADER_SIGN_NONCE = 'x-sign-nonce';//签名随机串
+    public static readonly HEADER_SIGN_VALUE = 'x-sign-value';//签名结果
+    /**
+     * WebServer.setRouter等以{ code, data }格式响应时附加的响应头，值为'1'
+     */
+    public static readonly HEADER_ENVELOPE = 'x-response-envelope';
+    private _host: string;//服务器地址
+    private _signPwd: string;//请求签名密码，与WebServerConfig.webSignPwd一致
+    private _timeout: number;//请求超时（毫秒）
+    private _retries: number;//GET请求失败重试次数
+    private _retryDelay: number;//失败重试间隔（毫秒）
+    private _headers: { [key: string]: string };//每次请求都附加的请求头
+    private _cookies: { [key: string]: string };//node环境下保存的cookie
+    private _credentials: boolean;//浏览器环境下跨域请求是否携带cookie
+    private _client: AxiosInstance;//axios实例
+    /**
+     * @param host 服务器地址（http://、https://），可包含WebServerConfig.webRootUrl前缀
+     * @param signPwd 请求签名密码，null不进行签名
+     * @param timeout 请求超时（毫秒）
+     * @param retries GET请求失败重试次数（网络错误、超时、502、503、504）
+     * @param retryDelay 失败重试间隔（毫秒）
+     */
+    public constructor(host: string, signPwd: string = null, timeout: number = 8000, retries: number = 0, retryDelay: number = 1000) {
+        this._host = host.replace(/\/+$/, '');
+        this._signPwd = signPwd;
+        this._timeout = timeout;
+        this._retries = retries;
+        this._retryDelay = retryDelay;
+        this._headers = {};
+        this._cookies = {};
+        this._credentials = false;
+        this._client = axios.create({
+            validateStatus: () => true,//全部状态码都由本类转换为WssBridgeResponse
+            maxContentLength: Infinity,
+            maxBodyLength: Infinity
+        });
+    }
+    /**
+     * 发起GET请求
+     * @param url 请求路径
+     * @param query 查询参数
+     * @param options 请求选项
+     */
+    public get<T = any>(url: string, query?: WebBridgeParams, options: WebBridgeOptions = {}): Promise<WssBridgeResponse<T>> {
+        return this.request<T>('GET', url, null, null, Object.assign({}, options, { query: Object.assign({}, options.query, query) }));
+    }
+    /**
+     * 发起POST请求，数据格式为application/json
+     * @param url 请求路径
+     * @param body 请求数据
+     * @param options 请求选项
+     */
+    public postJson<T = any>(url: string, body: any, options: WebBridgeOptions = {}): Promise<WssBridgeResponse<T>> {
+        return this.request<T>('POST', url, JSON.stringify(body === undefined ? null : body), 'application/json; charset=utf-8', options);
+    }
+    /**
+     * 发起POST请求，数据格式为application/x-www-form-urlencoded
+     * @param url 请求路径
+     * @param body 表单数据
+     * @param options 请求选项
+     */
+    public postForm<T = any>(url: string, body: WebBridgeParams, options: WebBridgeOptions = {}): Promise<WssBridgeResponse<T>> {
+        return this.request<T>('POST', url, WebBridge.buildQuery(body), 'application/x-www-form-urlencoded; charset=utf-8', options);
+    }
+    /**
+     * 上传单个文件到WebServer.loadUploadModule加载的路径
+     * @param url 上传请求的url
+     * @param key 上传表单'文件字段'，与WebServerConfig.uploadKey一致
+     * @param file 要上传的文件
+     * @param fields 随文件一起提交的其它表单字段
+     * @param options 请求选项
+     */
+    public upload(url: string, key: string, file: WebBridgeUploadFile, fields: { [key: string]: string | number | boolean } = {}, options: WebBridgeOptions = {}): Promise<WssBridgeResponse<WebBridgeUploadResult | string>> {
+        if (this.isNative()) {
+            if (file.data instanceof Blob) throw Error('blob data is not supported in node');
+            //node环境下手动拼接multipart数据，与浏览器一致使用UTF-8编码的原始文件名
+            const boundary = '----WebBridge' + CryptoJS.lib.WordArray.random(12).toString();
+            const chunks: Buffer[] = [];
+            for (let name in fields) {
+                chunks.push(Buffer.from('--' + boundary + '\r\nContent-Disposition: form-data; name="' + name + '"\r\n\r\n' + String(fields[name]) + '\r\n'));
+            }
+            chunks.push(Buffer.from('--' + boundary + '\r\nContent-Disposition: form-data; name="' + key + '"; filename="' + file.name.replace(/"/g, '%22').replace(/[\r\n]/g, ' ') + '"\r\nContent-Type: ' + file.type + '\r\n\r\n'));
+            chunks.push(typeof file.data === 'string' ? Buffer.from(file.data, 'utf8') : Buffer.from(file.data));
+            chunks.push(Buffer.from('\r\n--' + boundary + '--\r\n'));
+            return this.request('POST', url, Buffer.concat(chunks), 'multipart/form-data; boundary=' + boundary, options, true);
+        } else {
+            //浏览器环境下由FormData自动生成boundary
+            const form = new FormData();
+            for (let name in fields) {
+                form.append(name, String(fields[name]));
+            }
+            form.append(key, file.data instanceof Blob ? file.data : new Blob([typeof file.data === 'string' ? file.data : new Uint8Array(file.data)], { type: file.type }), file.name);
+            return this.request('POST', url, form, null, options, true);
+        }
+    }
+    /**
+     * 发起请求
+     * @param method 请求方法
+     * @param url 请求路径，其中的查询参数将合并到options.query中（同名时以options.query为准）
+     * @param body 已经编码好的请求数据
+     * @param contentType 请求数据的类型
+     * @param options 请求选项
+     * @param multipart 是否为multipart请求（multipart请求的数据不参与签名）
+     */
+    public async request<T = any>(method: Method, url: string, body?: string | Buffer | FormData, contentType?: string, options: WebBridgeOptions = {}, multipart: boolean = false): Promise<WssBridgeResponse<T>> {
+        const index = url.indexOf('?');
+        const path = (url.indexOf('/') === 0 ? '' : '/') + (index >= 0 ? url.substring(0, index) : url);
+        const params: WebBridgeParams = index >= 0 ? Object.assign(WebBridge.parseQuery(url.substring(index + 1)), options.query) : (options.query || {});
+        const query = WebBridge.buildQuery(params);
+        const retries = options.retries !== undefined ? options.retries : (method.toUpperCase() === 'GET' ? this._retries : 0);
+        let resp: WssBridgeResponse<T> = null;
+        for (let i = 0; i <= retries; i++) {
+            if (i > 0) await new Promise((resolve) => setTimeout(resolve, this._retryDelay));
+            const headers: { [key: string]: string } = Object.assign({}, this._headers, options.headers);
+            if (contentType) headers['content-type'] = contentType;
+            if (this.isNative() && !this.isEmptyCookies()) headers['cookie'] = this.getCookieString();
+            if (this._signPwd && options.sign !== false) {
+                Object.assign(headers, WebBridge.createSignHeaders(this._signPwd, method, this.getSignPath(path), params, multipart || typeof body !== 'string' ? '' : body));
+            }
+            const config: AxiosRequestConfig = {
+                method: method,
+                url: this._host + path + (query ? '?' + query : ''),
+                headers: headers,
+                data: body,
+                timeout: options.timeout !== undefined ? options.timeout : this._timeout,
+                withCredentials: this._credentials,
+                transformRequest: [(data) => data]//数据已经编码完成，无需axios再次处理
+            };
+            try {
+                const result: AxiosResponse = await this._client.request(config);
+                this.saveCookies(result.headers['set-cookie']);
+                resp = this.toResponse<T>(result.status, result.data, result.headers[WebBridge.HEADER_ENVELOPE] === '1');
+                if (result.status !== 502 && result.status !== 503 && result.status !== 504) break;
+            } catch (e) {
+                const error: { code?: string; message?: string } = e instanceof Error ? e : {};//非Error类型的异常按照未知错误处理
+                resp = error.code === 'ECONNABORTED' ? new WssBridgeResponse<T>(504, <any>'Gateway Timeout') : new WssBridgeResponse<T>(503, <any>('Service Unavailable, ' + (error.message || 'Unknow Error')));
+            }
+        }
+        return resp;
+    }
+    /**
+     * 设置每次请求都附加的请求头
+     * @param name 请求头名称
+     * @param value 请求头的值，传null则删除
+     */
+    public setHeader(name: string, value: string) {
+        if (value === null || value === undefined) {
+            delete this._headers[name.toLowerCase()];
+        } else {
+            this._headers[name.toLowerCase()] = value;
+        }
+    }
+    /**
+     * 设置cookie，仅node环境下生效，浏览器环境下cookie由浏览器管理
+     * @param name
+     * @param value 传null则删除
+     */
+    public setCookie(name: string, value: string) {
+        if (value === null || value === undefined) {
+            delete this._cookies[name];
+        } else {
+            this._cookies[name] = value;
+        }
+    }
+    /**
+     * 读取cookie，仅node环境下生效
+     * @param name
+     */
+    public getCookie(name: string): string {
+        return this._cookies[name];
+    }
+    /**
+     * 清除全部cookie，仅node环境下生效
+     */
+    public clearCookies() {
+        this._cookies = {};
+    }
+    /**
+     * 设置浏览器环境下跨域请求是否携带cookie
+     * @param credentials
+     */
+    public setCredentials(credentials: boolean) {
+        this._credentials = credentials;
+    }
+    /**
+     * 是否为服务端node环境
+     */
+    public isNative(): boolean { return typeof module === 'object'; }
+    /**
+     * 保存响应头中的cookie，仅node环境下生效
+     * @param setCookie 响应头set-cookie的值
+     */
+    private saveCookies(setCookie: string[]) {
+        if (!this.isNative() || !setCookie) return;
+        for (let i = 0; i < setCookie.length; i++) {
+            const parts = setCookie[i].split(';');
+            const index = parts[0].indexOf('=');
+            if (index <= 0) continue;
+            const name = parts[0].substring(0, index).trim();
+            const value = parts[0].substring(index + 1).trim();
+            let expired = false;
+            for (let k = 1; k < parts.length; k++) {
+                const attr = parts[k].trim().toLowerCase();
+                if (attr === 'max-age=0' || (attr.indexOf('expires=') === 0 && Date.parse(attr.substring(8)) <= Date.now())) {
+                    expired = true;
+                }
+            }
+            this.setCookie(name, expired ? null : value);
+        }
+    }
+    private getCookieString(): string {
+        const list: string[] = [];
+        for (let name in this._cookies) {
+            list.push(name + '=' + this._cookies[name]);
+        }
+        return list.join('; ');
+    }
+    private isEmptyCookies(): boolean {
+        for (let name in this._cookies) {
+            return false;
+        }
+        return true;
+    }
+    /**
+     * 将响应数据转换为WssBridgeResponse，服务端声明了{ code, data }格式（如：WebServer.setRouter的响应）时直接使用其code和data
+     * @param status HTTP状态码
+     * @param data 响应数据
+     * @param envelope 是否带有WebBridge.HEADER_ENVELOPE响应头
+     */
+    private toResponse<T>(status: number, data: any, envelope: boolean): WssBridgeResponse<T> {
+        if (envelope && data && typeof data === 'object' && typeof data.code === 'number') {
+            return new WssBridgeResponse<T>(data.code, data.data);
+        }
+        return new WssBridgeResponse<T>(status, data);
+    }
+    /**
+     * 返回参与签名的路径，包含host中的路径前缀
+     * @param path
+     */
+    private getSignPath(path: string): string {
+        const match = this._host.match(/^[a-z]+:\/\/[^/]+(\/.*)?$/i);
+        return (match && match[1] ? match[1] : '') + path;
+    }
+    /**
+     * 将参数按照key的字典序编码为查询字符串，数组参数将展开为多个同名参数
+     * @param params
+     */
+    public static buildQuery(params: WebBridgeParams): string {
+        const list: string[] = [];
+        const keys = Object.keys(params).sort();
+        for (let i = 0; i < keys.length; i++) {
+            const value = params[keys[i]];
+            if (value === undefined || value === null) continue;
+            const values = Array.isArray(value) ? value : [value];
+            for (let k = 0; k < values.length; k++) {
+                list.push(encodeURIComponent(keys[i]) + '=' + encodeURIComponent(String(values[k])));
+            }
+        }
+        return list.join('&');
+    }
+    /**
+     * 将查询字符串解析为参数，同名参数将合并为数组
+     * @param query 不含'?'的查询字符串
+     */
+    public static parseQuery(query: string): WebBridgeParams {
+        const params: WebBridgeParams = {};
+        new URLSearchParams(query).forEach((value, key) => {
+            const old = params[key];
+            params[key] = old === undefined ? value : (Array.isArray(old) ? old.concat(value) : [old, value]);
+        });
+        return params;
+    }
+    /**
+     * 计算请求签名，签名原文为：METHOD\nPATH\nQUERY\nSHA256(BODY)\nTIME\nNONCE
+     * @param pwd 签名密码
+     * @param method 请求方法
+     * @param path 请求路径（不含查询参数）
+     * @param query 查询参数
+     * @param body 请求数据的原文（multipart请求传空字符串）
+     * @param time 签名时间戳（毫秒）
+     * @param nonce 签名随机串
+     */
+    public static createSignature(pwd: string, method: string, path: string, query: WebBridgeParams, body: string, time: number, nonce: string): string {
+        const text = [method.toUpperCase(), path, WebBridge.buildQuery(query), CryptoJS.SHA256(body || '').toString(), time, nonce].join('\n');
+        return CryptoJS.HmacSHA256(text, pwd).toString();
+    }
+    /**
+     * 生成请求签名的全部请求头，使用其它http库（如：fetch）发起请求时可直接附加到请求头中
+     * @param pwd 签名密码
+     * @param method 请求方法
+     * @param path 请求路径（不含查询参数）
+     * @param query 查询参数，必须与实际发送的查询参数一致
+     * @param body 请求数据的原文（multipart请求传空字符串）
+     */
+    public static createSignHeaders(pwd: string, method: string, path: string, query: WebBridgeParams, body: string): { [key: string]: string } {
+        const time = Date.now();
+        const nonce = CryptoJS.lib.WordArray.random(16).toString();
+        return {
+            [WebBridge.HEADER_SIGN_TIME]: String(time),
+            [WebBridge.HEADER_SIGN_NONCE]: nonce,
+            [WebBridge.HEADER_SIGN_VALUE]: WebBridge.createSignature(pwd, method, path, query, body, time, nonce)
+        };
     }
 }
\ No newline at end of file
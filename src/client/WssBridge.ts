@@ -3,15 +3,94 @@
  */
 import WebSocket from 'ws';
 import CryptoJS from 'crypto-js';
+import { WssBridgeCodec, WssBridgeJsonCodec, WssBridgeMsgPackCodec, WssBridgeCborCodec } from './WssBridgeCodec';
 
+export type WssBridgeCipher = 'cbc' | 'gcm';
 export type WssBridgeListenerDecoder = (packData: WssBridgePackData) => any;
-export type WssBridgeListenerCallback = (message: any, params?: any[]) => void;
-export type WssBridgeRequestCallback = (resp: WssBridgeResponse, params?: any[]) => void;
+export type WssBridgeListenerCallback = (message: any, params?: any[], pack?: WssBridgePackData) => void;
+export type WssBridgeRequestCallback<T = any> = (resp: WssBridgeResponse<T>, params?: any[]) => void;
 export type WssBridgeOnopen = (params?: any[]) => void;
 export type WssBridgeOnclose = (code: number, reason: string, params?: any[]) => void;
 export type WssBridgeOnerror = (error: any, params?: any[]) => void;
 export type WssBridgeOnretry = (count: number, params?: any[]) => void;
 export type WssBridgeOnsecond = (second: number, delay: number, params?: any[]) => void;
+export type WssBridgeOfflinePolicy = 'drop' | 'queue' | 'fail';
+export type WssBridgeState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'paused' | 'disposed';
+
+/**
+ * 路由类型表中单个路由的定义，request与response为请求路由的数据类型，message为推送路由的数据类型
+ */
+export interface WssBridgeRouteDefine { request?: any; response?: any; message?: any; }
+/**
+ * 路由类型表，作为WssBridge的泛型参数在编译时检查路由名称与数据类型，不传泛型参数时不检查。例如：
+ * interface ChatRoutes {
+ *     'user.login': { request: { uid: string }; response: { token: string } };
+ *     'chat.msg': { message: { from: string; text: string } };
+ * }
+ * const bridge = new WssBridge<ChatRoutes>(host, pwd, binary);
+ */
+export type WssBridgeRouteMap = { [route: string]: WssBridgeRouteDefine };
+export type WssBridgeRouteName<Routes> = Extract<keyof Routes, string>;
+export type WssBridgeRouteNamespace<R extends string> = R extends `${infer P}.${infer S}` ? `${P}.*` | `${P}.${WssBridgeRouteNamespace<S>}` : never;
+export type WssBridgeRoutePattern<Routes> = WssBridgeRouteName<Routes> | WssBridgeRouteNamespace<WssBridgeRouteName<Routes>> | '*' | typeof WssBridgePackData.ROUTE_HANDSHAKE | typeof WssBridgePackData.ROUTE_RESUME | typeof WssBridgePackData.ROUTE_STATE;
+export type WssBridgeMessageOf<Routes, K> = K extends typeof WssBridgePackData.ROUTE_HANDSHAKE | typeof WssBridgePackData.ROUTE_RESUME ? WssBridgeResponse :
+    K extends typeof WssBridgePackData.ROUTE_STATE ? WssBridgeStateChange :
+    K extends '*' ? WssBridgePushOf<Routes, WssBridgeRouteName<Routes>> :
+    K extends `${infer P}.*` ? WssBridgePushOf<Routes, Extract<WssBridgeRouteName<Routes>, `${P}.${string}`>> :
+    K extends keyof Routes ? (Routes[K] extends { message: infer M } ? M : any) : any;
+export type WssBridgePushOf<Routes, K> = K extends keyof Routes ? (Routes[K] extends { message: infer M } ? M : never) : never;
+export type WssBridgeRequestOf<Routes, K> = K extends keyof Routes ? (Routes[K] extends { request: infer M } ? M : any) : any;
+export type WssBridgeResponseOf<Routes, K> = K extends keyof Routes ? (Routes[K] extends { response: infer M } ? M : any) : any;
+
+export interface WssBridgeRequestOptions {
+    timeout?: number;//本次请求的超时时间（毫秒），不传则使用构造函数中的值
+    signal?: AbortSignal;//取消请求的信号，取消后将以WssBridgeResponse.CODE_ABORTED结束请求，仅requestAsync支持
+    offline?: WssBridgeOfflinePolicy;//未连接时的处理方式，不传则使用setSendQueue设置的默认值。drop直接丢弃且不回调（requestAsync仍以CODE_DISCONNECT结束），queue放入发送队列，fail以CODE_DISCONNECT结束请求
+}
+export interface WssBridgeReconnectOptions {
+    delay?: number;//首次重连的等待时间（毫秒），默认为conntick秒
+    maxDelay?: number;//重连等待时间的上限（毫秒）
+    factor?: number;//每次重连失败后等待时间的倍数，1为固定间隔
+    jitter?: number;//随机抖动比例（0-1），实际等待时间在 等待时间 * (1 - jitter) 到 等待时间 之间，避免大量客户端同时重连
+    maxRetries?: number;//连续重连失败的最大次数，超出后暂停重连并以'Max Retries'通知onerror，0不限制
+    stableTime?: number;//连接保持超过该时间（毫秒）后才重置重连次数，避免服务端反复断开时一直以首次的等待时间重连
+}
+/**
+ * 连接状态的变化
+ * idle：未调用connect
+ * connecting：首次建立连接
+ * open：连接已建立
+ * reconnecting：连接断开，等待或正在自动重连
+ * paused：连接断开，自动重连已暂停（pauseReconnect、超出最大重连次数、服务端不支持此客户端）
+ * disposed：已调用disconnect销毁
+ */
+export interface WssBridgeStateChange {
+    from: WssBridgeState;//变化前的状态
+    to: WssBridgeState;//变化后的状态
+    reason: string;//变化原因：connect、open、close、error、pause、resume、retries、disconnect
+    code: number;//reason为close时为关闭码，否则为0
+    detail: string;//reason为close时为关闭原因，reason为error时为错误信息，否则为null
+    time: number;//变化时间
+}
+export interface WssBridgeStats {
+    state: WssBridgeState;//当前状态
+    stateTime: number;//进入当前状态的时间
+    openTime: number;//最近一次建立连接的时间，未建立过时为0
+    rtt: number[];//最近的往返延迟（毫秒），按时间顺序，最多保留WssBridge.RTT_HISTORY个
+    bytesIn: number;//收到的字节数
+    bytesOut: number;//发送的字节数
+    packsIn: number;//收到的数据包数量
+    packsOut: number;//发送的数据包数量
+    retries: number;//累计尝试重连的次数
+    reconnects: number;//累计断线重连成功的次数
+}
+export interface WssBridgeHandshake {
+    version: number;//客户端的协议版本
+    codec: string;//客户端使用的编解码器名称
+    cipher: WssBridgeCipher;//客户端使用的加密模式
+    binary: boolean;//客户端是否用二进制传输
+    client: { [key: string]: any };//客户端信息，如：平台、应用版本、设备型号等
+}
 
 export class WssBridgePackData {
     /**
@@ -19,6 +98,16 @@ export class WssBridgePackData {
      */
     public static readonly ROUTE_HEARTICK = '$heartick$';//心跳包路由
     public static readonly ROUTE_RESPONSE = '$response$';//响应请求路由
+    public static readonly ROUTE_ACKNOWLEDGE = '$acknowledge$';//确认送达路由
+    public static readonly ROUTE_RESUME = '$resume$';//会话恢复路由，恢复的结果WssBridgeResponse将通知给该路由的监听器
+    public static readonly ROUTE_STATE = '$state$';//连接状态路由，状态变化WssBridgeStateChange将通知给该路由的监听器，仅在本地触发
+    public static readonly ROUTE_HANDSHAKE = '$handshake$';//握手路由，握手的结果WssBridgeResponse将通知给该路由的监听器，握手包总是使用JSON编解码器
+    /**
+     * 协议版本，协议不兼容的变化（序列化格式、保留路由、保留状态码等）需要增加此版本号
+     * 1 未握手的旧版本客户端
+     * 2 支持握手、gcm加密模式、可插拔的编解码器
+     */
+    public static readonly PROTOCOL_VERSION = 2;
     /**
      * 状态
      * 本框架保留状态码:
@@ -30,60 +119,101 @@ export class WssBridgePackData {
     public static readonly CODE_CLOSE = { code: 4102, data: 'close' };
     public static readonly CODE_ERROR = { code: 4103, data: 'error' };
     public static readonly CODE_CALL = { code: 4104, data: 'call' };
+    public static readonly CODE_GOAWAY = { code: 1001, data: 'going away' };//服务端优雅关闭，reason中的retry为建议的重连等待时间（毫秒）
+    /**
+     * 加密模式
+     * cbc 旧版格式：salt(16字节) + iv(16字节) + 密文，AES-CBC、Pkcs7，密钥为HmacSHA256(salt, pwd)，没有完整性校验
+     * gcm 新版格式：版本标识(4字节) + 密文长度(4字节) + salt(16字节) + iv(12字节) + 认证标签(16字节) + 密文，
+     *     AES-256-GCM，密钥为HKDF-SHA256(pwd, salt)，前36字节作为附加认证数据，篡改的数据包在解密前即被拒绝
+     * 反序列化时根据版本标识自动识别，迁移期间新旧两种格式可以互通
+     */
+    public static readonly CIPHER_CBC: WssBridgeCipher = 'cbc';
+    public static readonly CIPHER_GCM: WssBridgeCipher = 'gcm';
+    private static readonly GCM_VERSION = 0x57534202;//gcm格式的版本标识：'WSB' + 0x02
+    private static readonly GCM_HKDF_INFO = 'WssBridgePackData AES-256-GCM';//HKDF派生密钥时使用的info
+    /**
+     * 内置的编解码器
+     */
+    public static readonly CODEC_JSON: WssBridgeCodec = new WssBridgeJsonCodec();
+    public static readonly CODEC_MSGPACK: WssBridgeCodec = new WssBridgeMsgPackCodec();
+    public static readonly CODEC_CBOR: WssBridgeCodec = new WssBridgeCborCodec();
 
     public route: string;
     public reqId: number;
     public message: any;
+    public msgId: string;
+    public cipher: WssBridgeCipher;//反序列化时识别出的加密模式，不参与序列化
     /**
      * @param route 路由
      * @param reqId 请求序号
      * @param message 报文数据
+     * @param msgId 可靠推送的消息id，客户端收到后需要确认送达
      */
-    public constructor(route: string, reqId: number, message: any) {
+    public constructor(route: string, reqId: number, message: any, msgId?: string) {
         this.route = route;
         this.reqId = reqId;
         this.message = message;
+        this.msgId = msgId;
     }
     /**
-     * 将数据包进行序列化，采用随机生成iv和key的AES加密算法，CBC、Pkcs7
+     * 将数据包进行序列化，采用随机生成iv和key的AES加密算法
      * @param pack 要序列化的数据包
      * @param pwd 加密的密码
-     * @param binary 是否返回二进制结果，设置了pwd时生效
+     * @param binary 是否返回二进制结果，设置了pwd时生效（未设置pwd时，二进制格式的编解码器总是返回二进制结果）
+     * @param cipher 加密模式，设置了pwd时生效
+     * @param codec 编解码器
      */
-    public static serialize(pack: WssBridgePackData, pwd: string, binary: boolean): ArrayBuffer | string {
+    public static serialize(pack: WssBridgePackData, pwd: string, binary: boolean, cipher: WssBridgeCipher = WssBridgePackData.CIPHER_CBC, codec: WssBridgeCodec = WssBridgePackData.CODEC_JSON): ArrayBuffer | string {
         try {
-            const str = JSON.stringify(pack);
+            const raw = codec.encode({ route: pack.route, reqId: pack.reqId, message: pack.message, msgId: pack.msgId });
             if (pwd) {
                 //ArrayBuffer or base64 string
-                const salt = CryptoJS.lib.WordArray.random(16);
-                const iv = CryptoJS.lib.WordArray.random(16);
-                const key = CryptoJS.HmacSHA256(salt, pwd);
-                const body = CryptoJS.AES.encrypt(str, key, {
-                    iv: iv,
-                    mode: CryptoJS.mode.CBC,
-                    padding: CryptoJS.pad.Pkcs7
-                }).ciphertext;
-                const encRes = CryptoJS.lib.WordArray.create();
-                encRes.concat(salt).concat(iv).concat(body);
+                const plain = typeof raw === 'string' ? CryptoJS.enc.Utf8.parse(raw) : WssBridgePackData.bytesToWords(raw);
+                let encRes: CryptoJS.lib.WordArray;
+                if (cipher === WssBridgePackData.CIPHER_GCM) {
+                    encRes = WssBridgePackData.encryptGCM(plain, pwd);
+                } else {
+                    const salt = CryptoJS.lib.WordArray.random(16);
+                    const iv = CryptoJS.lib.WordArray.random(16);
+                    const key = CryptoJS.HmacSHA256(salt, pwd);
+                    const body = CryptoJS.AES.encrypt(plain, key, {
+                        iv: iv,
+                        mode: CryptoJS.mode.CBC,
+                        padding: CryptoJS.pad.Pkcs7
+                    }).ciphertext;
+                    encRes = CryptoJS.lib.WordArray.create();
+                    encRes.concat(salt).concat(iv).concat(body);
+                }
                 return binary ? new Int32Array(encRes.words).buffer : encRes.toString(CryptoJS.enc.Base64);
             } else {
-                //json string
-                return str;
+                //json string or ArrayBuffer
+                return typeof raw === 'string' ? raw : (raw.buffer as ArrayBuffer).slice(raw.byteOffset, raw.byteOffset + raw.byteLength);
             }
         } catch (e) {
             return null;
         }
     }
     /**
-     * 将收到的数据进行反序列化，采用随机生成iv和key的AES解密算法，CBC、Pkcs7
+     * 将收到的数据进行反序列化，采用随机生成iv和key的AES解密算法，根据版本标识自动识别加密模式
      * @param data 要解密的数据
      * @param pwd 解密的密码
+     * @param codec 编解码器
      */
-    public static deserialize(data: ArrayBuffer | string, pwd: string): WssBridgePackData {
+    public static deserialize(data: ArrayBuffer | string, pwd: string, codec: WssBridgeCodec = WssBridgePackData.CODEC_JSON): WssBridgePackData {
         try {
             if (pwd) {
                 //ArrayBuffer or base64 string
                 const words = data instanceof ArrayBuffer ? Array.prototype.slice.call(new Int32Array(data)) : CryptoJS.enc.Base64.parse(data).words;
+                if (words[0] === WssBridgePackData.GCM_VERSION) {
+                    const decRes = WssBridgePackData.decryptGCM(words, pwd);
+                    if (decRes !== null) {
+                        const obj = codec.decode(codec.binary ? WssBridgePackData.wordsToBytes(decRes) : decRes.toString(CryptoJS.enc.Utf8));
+                        const pack = new WssBridgePackData(obj.route, obj.reqId, obj.message, obj.msgId);
+                        pack.cipher = WssBridgePackData.CIPHER_GCM;
+                        return pack;
+                    }
+                    //极小概率旧版格式的随机salt与版本标识相同，继续按照旧版格式解密
+                }
                 const salt = CryptoJS.lib.WordArray.create(words.slice(0, 4));
                 const iv = CryptoJS.lib.WordArray.create(words.slice(4, 8));
                 const key = CryptoJS.HmacSHA256(salt, pwd);
@@ -92,13 +222,15 @@ export class WssBridgePackData {
                     iv: iv,
                     mode: CryptoJS.mode.CBC,
                     padding: CryptoJS.pad.Pkcs7
-                }).toString(CryptoJS.enc.Utf8);
-                const obj = JSON.parse(decRes);
-                return new WssBridgePackData(obj.route, obj.reqId, obj.message);
+                });
+                const obj = codec.decode(codec.binary ? WssBridgePackData.wordsToBytes(decRes) : decRes.toString(CryptoJS.enc.Utf8));
+                const pack = new WssBridgePackData(obj.route, obj.reqId, obj.message, obj.msgId);
+                pack.cipher = WssBridgePackData.CIPHER_CBC;
+                return pack;
             } else {
-                //json string
-                const obj = data instanceof ArrayBuffer ? {} : JSON.parse(data);
-                return new WssBridgePackData(obj.route, obj.reqId, obj.message);
+                //json string or ArrayBuffer
+                const obj = codec.decode(data instanceof ArrayBuffer ? new Uint8Array(data) : data);
+                return new WssBridgePackData(obj.route, obj.reqId, obj.message, obj.msgId);
             }
         } catch (e) {
             return null;
@@ -111,6 +243,137 @@ export class WssBridgePackData {
     public static getMd5(data: string): string {
         return CryptoJS.MD5(data).toString();
     }
+    /**
+     * gcm模式加密
+     * @param plain 要加密的数据
+     * @param pwd 加密的密码
+     */
+    private static encryptGCM(plain: CryptoJS.lib.WordArray, pwd: string): CryptoJS.lib.WordArray {
+        const salt = CryptoJS.lib.WordArray.random(16);
+        const iv = CryptoJS.lib.WordArray.random(12);
+        const key = WssBridgePackData.deriveKey(salt, pwd);
+        const body = WssBridgePackData.cryptCTR(plain, key, iv);
+        const head = CryptoJS.lib.WordArray.create([WssBridgePackData.GCM_VERSION, body.sigBytes]).concat(salt).concat(iv);
+        const tag = WssBridgePackData.computeTag(head, body, key, iv);
+        return head.concat(tag).concat(body);
+    }
+    /**
+     * gcm模式解密
+     * @param words 收到的数据
+     * @param pwd 解密的密码
+     * @returns 认证标签校验失败时返回null
+     */
+    private static decryptGCM(words: number[], pwd: string): CryptoJS.lib.WordArray {
+        const length = words[1];
+        if (words.length < 13 || length < 0 || length > (words.length - 13) * 4) return null;
+        const head = CryptoJS.lib.WordArray.create(words.slice(0, 9));
+        const salt = CryptoJS.lib.WordArray.create(words.slice(2, 6));
+        const iv = CryptoJS.lib.WordArray.create(words.slice(6, 9));
+        const tag = words.slice(9, 13);
+        const body = CryptoJS.lib.WordArray.create(words.slice(13), length);
+        body.clamp();
+        const key = WssBridgePackData.deriveKey(salt, pwd);
+        const expect = WssBridgePackData.computeTag(head, body, key, iv).words;
+        let diff = 0;
+        for (let i = 0; i < 4; i++) diff |= expect[i] ^ tag[i];
+        if (diff !== 0) return null;
+        return WssBridgePackData.cryptCTR(body, key, iv);
+    }
+    /**
+     * Uint8Array转换为WordArray
+     * @param bytes 
+     */
+    private static bytesToWords(bytes: Uint8Array): CryptoJS.lib.WordArray {
+        const words: number[] = [];
+        for (let i = 0; i < bytes.length; i++) {
+            words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+        }
+        return CryptoJS.lib.WordArray.create(words, bytes.length);
+    }
+    /**
+     * WordArray转换为Uint8Array
+     * @param data 
+     */
+    private static wordsToBytes(data: CryptoJS.lib.WordArray): Uint8Array {
+        const bytes = new Uint8Array(data.sigBytes);
+        for (let i = 0; i < data.sigBytes; i++) {
+            bytes[i] = (data.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+        }
+        return bytes;
+    }
+    /**
+     * HKDF-SHA256派生256位密钥
+     * @param salt 
+     * @param pwd 
+     */
+    private static deriveKey(salt: CryptoJS.lib.WordArray, pwd: string): CryptoJS.lib.WordArray {
+        const prk = CryptoJS.HmacSHA256(pwd, salt);//extract
+        return CryptoJS.HmacSHA256(CryptoJS.enc.Utf8.parse(WssBridgePackData.GCM_HKDF_INFO).concat(CryptoJS.lib.WordArray.create([0x01000000], 1)), prk);//expand，只需要第一个块
+    }
+    /**
+     * 使用AES-ECB加密单个块
+     * @param block 
+     * @param key 
+     */
+    private static encryptBlock(block: number[], key: CryptoJS.lib.WordArray): number[] {
+        return CryptoJS.AES.encrypt(CryptoJS.lib.WordArray.create(block, 16), key, { mode: CryptoJS.mode.ECB, padding: CryptoJS.pad.NoPadding }).ciphertext.words.slice(0, 4);
+    }
+    /**
+     * GCM的CTR加解密，计数器从inc32(J0)开始
+     * @param data 
+     * @param key 
+     * @param iv 12字节
+     */
+    private static cryptCTR(data: CryptoJS.lib.WordArray, key: CryptoJS.lib.WordArray, iv: CryptoJS.lib.WordArray): CryptoJS.lib.WordArray {
+        if (data.sigBytes === 0) return CryptoJS.lib.WordArray.create([], 0);
+        const counter = CryptoJS.lib.WordArray.create(iv.words.slice(0, 3).concat([2]), 16);
+        const result = CryptoJS.AES.encrypt(data, key, { iv: counter, mode: CryptoJS.mode.CTR, padding: CryptoJS.pad.NoPadding }).ciphertext;
+        result.clamp();
+        return result;
+    }
+    /**
+     * 计算认证标签：GHASH(H, A, C) XOR E(K, J0)
+     * @param aad 附加认证数据
+     * @param body 密文
+     * @param key 
+     * @param iv 12字节
+     */
+    private static computeTag(aad: CryptoJS.lib.WordArray, body: CryptoJS.lib.WordArray, key: CryptoJS.lib.WordArray, iv: CryptoJS.lib.WordArray): CryptoJS.lib.WordArray {
+        const h = WssBridgePackData.encryptBlock([0, 0, 0, 0], key);
+        let y = [0, 0, 0, 0];
+        const update = (words: number[], sigBytes: number) => {
+            for (let i = 0; i < sigBytes; i += 16) {
+                const n = i / 4;
+                y = WssBridgePackData.multiplyGF([y[0] ^ (words[n] | 0), y[1] ^ (words[n + 1] | 0), y[2] ^ (words[n + 2] | 0), y[3] ^ (words[n + 3] | 0)], h);
+            }
+        };
+        update(aad.words, aad.sigBytes);
+        update(body.words, body.sigBytes);
+        update([0, aad.sigBytes * 8, 0, body.sigBytes * 8], 16);
+        const s = WssBridgePackData.encryptBlock(iv.words.slice(0, 3).concat([1]), key);
+        return CryptoJS.lib.WordArray.create([y[0] ^ s[0], y[1] ^ s[1], y[2] ^ s[2], y[3] ^ s[3]], 16);
+    }
+    /**
+     * GF(2^128)上的乘法，参考NIST SP 800-38D
+     * @param x 
+     * @param y 
+     */
+    private static multiplyGF(x: number[], y: number[]): number[] {
+        let z0 = 0, z1 = 0, z2 = 0, z3 = 0;
+        let v0 = y[0], v1 = y[1], v2 = y[2], v3 = y[3];
+        for (let i = 0; i < 128; i++) {
+            if ((x[i >>> 5] >>> (31 - (i & 31))) & 1) {
+                z0 ^= v0; z1 ^= v1; z2 ^= v2; z3 ^= v3;
+            }
+            const lsb = v3 & 1;
+            v3 = (v3 >>> 1) | (v2 << 31);
+            v2 = (v2 >>> 1) | (v1 << 31);
+            v1 = (v1 >>> 1) | (v0 << 31);
+            v0 = v0 >>> 1;
+            if (lsb) v0 ^= 0xe1000000;
+        }
+        return [z0, z1, z2, z3];
+    }
 }
 export class WssBridgeListener {
     public once: boolean;//是否只触发一次
@@ -123,20 +386,22 @@ export class WssBridgeListener {
         this.context = context || this;
         this.params = params;
     }
-    public callMessage(message: any) {
+    public callMessage(message: any, pack?: WssBridgePackData) {
         if (this.onmessage) {
-            this.onmessage.call(this.context, message, this.params);
+            this.onmessage.call(this.context, message, this.params, pack);
         }
     }
 }
 export class WssBridgeRequest {
     public time: number;//请求的时间
+    public timeout: number;//请求超时（毫秒），为0时使用WssBridge构造函数中的值
     public onsuccess: WssBridgeRequestCallback;
     public onerror: WssBridgeRequestCallback;
     public context: any;
     public params: any[];
-    public constructor(onsuccess?: WssBridgeRequestCallback, onerror?: WssBridgeRequestCallback, context?: any, params?: any[]) {
+    public constructor(onsuccess?: WssBridgeRequestCallback, onerror?: WssBridgeRequestCallback, context?: any, params?: any[], timeout: number = 0) {
         this.time = Date.now();
+        this.timeout = timeout;
         this.onsuccess = onsuccess;
         this.onerror = onerror;
         this.context = context || this;
@@ -153,23 +418,38 @@ export class WssBridgeRequest {
         }
     }
 }
-export class WssBridgeResponse {
+export class WssBridgeResponse<T = any> {
+    /**
+     * 请求未收到服务端响应时的状态码
+     */
+    public static readonly CODE_TIMEOUT = { code: 504, data: 'Gateway Timeout' };//请求超时
+    public static readonly CODE_DISCONNECT = { code: 503, data: 'Service Unavailable' };//未连接或等待响应时连接断开
+    public static readonly CODE_SERIALIZE = { code: 500, data: 'Serialize Error' };//请求数据序列化失败
+    public static readonly CODE_ABORTED = { code: 499, data: 'Client Closed Request' };//请求被取消
+    /**
+     * 握手失败时服务端响应的状态码
+     */
+    public static readonly CODE_UPGRADE = { code: 426, data: 'Upgrade Required' };//服务端不支持此客户端的协议版本、编解码器或被握手监听器拒绝
+
     public code: number;//状态码
-    public data: any;//正确数据或错误描述
-    public constructor(code: number, data: any) {
+    public data: T;//正确数据或错误描述
+    public constructor(code: number, data: T) {
         this.code = code;
         this.data = data;
     }
     public get ok(): boolean { return this.code === 200; }
 }
-export class WssBridge {
+export class WssBridge<Routes = WssBridgeRouteMap> {
     public static readonly LOG_LEVEL_ALL = 1;
     public static readonly LOG_LEVEL_DATA = 2;
     public static readonly LOG_LEVEL_INFO = 3;
     public static readonly LOG_LEVEL_NONE = 4;
+    public static readonly RTT_HISTORY = 20;
     private _host: string;//服务器地址
     private _pwd: string;//数据加解密密码
     private _binary: boolean;//是否用二进制传输
+    private _cipher: WssBridgeCipher;//加密模式
+    private _codec: WssBridgeCodec;//编解码器
     private _timeout: number;//请求超时（毫秒）
     private _heartick: number;//心跳间隔（秒）
     private _conntick: number;//重连间隔（秒）
@@ -177,7 +457,21 @@ export class WssBridge {
     private _timerInc: number;//秒数自增量
     private _reqIdInc: number;//请求自增量
     private _netDelay: number;//网络延迟（毫秒）
+    private _stats: WssBridgeStats;//连接状态与统计信息
     private _retryCnt: number;//断线重连尝试次数
+    private _retryTime: number;//下一次重连的最早时间
+    private _reconnect: WssBridgeReconnectOptions;//断线重连的退避策略
+    private _online: boolean;//网络是否可用，不可用时暂停重连
+    private _onlineListener: (e: Event) => void;//浏览器环境下监听网络状态变化的函数
+    private _queue: WssBridgeQueueItem[];//未连接时等待发送的请求队列
+    private _queueLimit: number;//发送队列的最大长度
+    private _offlinePolicy: WssBridgeOfflinePolicy;//未连接时请求的默认处理方式
+    private _msgIdList: string[];//最近收到的可靠推送消息id（重连后服务端可能重发已收到但未确认的消息）
+    private _resumeToken: string;//断线重连后恢复会话的令牌
+    private _authQuery: { [key: string]: string | number | boolean };//握手时附加到连接地址的查询参数
+    private _authHeaders: { [key: string]: string };//握手时附加的请求头，仅node环境下生效
+    private _clientInfo: { [key: string]: any };//握手时发送的客户端信息，null时不握手
+    private _handshakeReqId: number;//等待响应的握手请求序号
     private _listeners: { [key: string]: WssBridgeListener[] };//监听集合
     private _requests: { [key: string]: WssBridgeRequest };//请求集合
     private _logLevel: number;//调试信息输出级别
@@ -187,6 +481,7 @@ export class WssBridge {
     //预解码器
     private _listenerDecoder: WssBridgeListenerDecoder;
     private _listenerContext: any;
+    private _decoders: { [key: string]: WssBridgeListenerDecoder };//每个路由的解码器，优先于_listenerDecoder
     //状态监听
     private _onopen: WssBridgeOnopen;
     private _onclose: WssBridgeOnclose;
@@ -202,11 +497,15 @@ export class WssBridge {
      * @param timeout 请求超时（毫秒）
      * @param heartick 心跳间隔（秒）
      * @param conntick 重连间隔（秒）
+     * @param cipher 加密模式，设置了pwd时生效。服务端会以客户端使用的模式进行响应和推送，收到的数据包自动识别模式
+     * @param codec 编解码器，必须与服务端使用的编解码器相同
      */
-    public constructor(host: string, pwd: string, binary: boolean, timeout: number = 8000, heartick: number = 60, conntick: number = 3) {
+    public constructor(host: string, pwd: string, binary: boolean, timeout: number = 8000, heartick: number = 60, conntick: number = 3, cipher: WssBridgeCipher = WssBridgePackData.CIPHER_CBC, codec: WssBridgeCodec = WssBridgePackData.CODEC_JSON) {
         this._host = host.indexOf('https:') === 0 ? host.replace('https:', 'wss:') : (host.indexOf('http:') === 0 ? host.replace('http:', 'ws:') : host);
         this._pwd = pwd;
         this._binary = binary;
+        this._cipher = cipher;
+        this._codec = codec;
         this._timeout = timeout;
         this._heartick = heartick;
         this._conntick = conntick;
@@ -214,8 +513,23 @@ export class WssBridge {
         this._timerInc = 0;
         this._reqIdInc = 0;
         this._netDelay = 0;
+        this._stats = { state: 'idle', stateTime: Date.now(), openTime: 0, rtt: [], bytesIn: 0, bytesOut: 0, packsIn: 0, packsOut: 0, retries: 0, reconnects: 0 };
         this._retryCnt = 0;
+        this._retryTime = 0;
+        this._reconnect = { delay: conntick * 1000, maxDelay: 30 * 1000, factor: 1, jitter: 0, maxRetries: 0, stableTime: 5 * 1000 };
+        this._online = true;
+        this._onlineListener = null;
+        this._queue = [];
+        this._queueLimit = 0;
+        this._offlinePolicy = 'fail';
+        this._msgIdList = [];
+        this._resumeToken = null;
+        this._authQuery = null;
+        this._authHeaders = null;
+        this._clientInfo = null;
+        this._handshakeReqId = null;
         this._listeners = {};
+        this._decoders = {};
         this._requests = {};
         this._logLevel = WssBridge.LOG_LEVEL_NONE;
         this._socket = null;
@@ -224,21 +538,38 @@ export class WssBridge {
     }
     private onSocketOpen(e: any) {
         if (this._logLevel < WssBridge.LOG_LEVEL_NONE) console.log('connected', this._host);
-        this._retryCnt = 0;//重置重连次数为0
+        if (this._clientInfo) this.handshake();//握手
+        if (this._resumeToken) this.resumeSession();//断线重连后恢复会话
+        this.flushQueue();//发送未连接时放入队列的请求
+        if (this._stats.state === 'reconnecting' || this._stats.state === 'paused') this._stats.reconnects++;
+        this._stats.openTime = Date.now();
+        this.setState('open', 'open');
         if (this._onopen) this._onopen.call(this._context, this._params);
     }
     private onSocketMessage(e: any): void {
         if (this._expired) return;
+        this._stats.bytesIn += this.getByteLength(e.data);
+        this._stats.packsIn++;
         this.readPackData(e.data);
     }
     private onSocketClose(e: any) {
         if (this._expired) return;
         this.safeClose(WssBridgePackData.CODE_CLOSE.code, WssBridgePackData.CODE_CLOSE.data);
+        this.clearRequests(WssBridgeResponse.CODE_DISCONNECT);
+        this._retryTime = Math.max(this._retryTime, Date.now() + this.getRetryDelay(this._retryCnt));
+        if (e.code === WssBridgePackData.CODE_GOAWAY.code) {
+            const match = /retry=(\d+)/.exec(e.reason || '');
+            if (match) this._retryTime = Math.max(this._retryTime, Date.now() + Number(match[1]));//服务端正在关闭，按照建议的时间重连
+        }
+        this.setState(this._paused ? 'paused' : 'reconnecting', 'close', e.code || 0, e.reason || 'Unknow Reason');
         if (this._onclose) this._onclose.call(this._context, e.code || 0, e.reason || 'Unknow Reason', this._params);
     }
     private onSocketError(e: any) {
         if (this._expired) return;
         this.safeClose(WssBridgePackData.CODE_ERROR.code, WssBridgePackData.CODE_ERROR.data);
+        this.clearRequests(WssBridgeResponse.CODE_DISCONNECT);
+        this._retryTime = Math.max(this._retryTime, Date.now() + this.getRetryDelay(this._retryCnt));
+        this.setState(this._paused ? 'paused' : 'reconnecting', 'error', 0, e.message || 'Unknow Error');
         if (this._onerror) this._onerror.call(this._context, e.message || 'Unknow Error', this._params);
     }
     private onTimerTick() {
@@ -249,24 +580,40 @@ export class WssBridge {
         const list: string[] = [];
         for (let reqId in this._requests) {
             const request: WssBridgeRequest = this._requests[reqId];
-            if (time - request.time > this._timeout) {
-                request.callError(new WssBridgeResponse(504, 'Gateway Timeout'));
+            if (time - request.time > (request.timeout || this._timeout)) {
+                request.callError(new WssBridgeResponse(WssBridgeResponse.CODE_TIMEOUT.code, WssBridgeResponse.CODE_TIMEOUT.data));
                 list.push(reqId);
             }
         }
         for (let i = 0; i < list.length; i++) {
             delete this._requests[list[i]];
         }
+        for (let i = this._queue.length - 1; i >= 0; i--) {
+            const request = this._queue[i].request;
+            if (request && time - request.time > (request.timeout || this._timeout)) {
+                this._queue.splice(i, 1);
+                request.callError(new WssBridgeResponse(WssBridgeResponse.CODE_TIMEOUT.code, WssBridgeResponse.CODE_TIMEOUT.data));
+            }
+        }
         //心跳和断线重连
         if (this.isConnected()) {
+            if (this._retryCnt > 0 && time - this._stats.openTime >= this._reconnect.stableTime) this._retryCnt = 0;//连接已经稳定，重置重连次数为0
             if (this._timerInc % this._heartick === 0) {
                 this.sendPackData(new WssBridgePackData(WssBridgePackData.ROUTE_HEARTICK, this._reqIdInc++, Date.now()));//发送心跳包
             }
         } else {
-            if (this._timerInc % this._conntick === 0 && !this._paused) {
-                this._retryCnt++;//增加重连次数
-                if (this._onretry) this._onretry.call(this._context, this._retryCnt, this._params);
-                this.safeOpen();//安全开启连接
+            if (!this._paused && this._online && time >= this._retryTime) {
+                if (this._reconnect.maxRetries > 0 && this._retryCnt >= this._reconnect.maxRetries) {
+                    this._paused = true;//连续重连失败次数超出上限
+                    this.setState('paused', 'retries');
+                    if (this._onerror) this._onerror.call(this._context, 'Max Retries', this._params);
+                } else {
+                    this._retryCnt++;//增加重连次数
+                    this._stats.retries++;
+                    this._retryTime = time + this.getRetryDelay(this._retryCnt);//连接未能建立时的下一次重连时间
+                    if (this._onretry) this._onretry.call(this._context, this._retryCnt, this._params);
+                    this.safeOpen();//安全开启连接
+                }
             }
         }
         //秒钟回调
@@ -274,20 +621,118 @@ export class WssBridge {
             this._onsecond.call(this._context, this._timerInc, this._netDelay, this._params);
         }
     }
-    private sendPackData(pack: WssBridgePackData) {
-        if (this._expired) return;
+    private sendPackData(pack: WssBridgePackData, codec: WssBridgeCodec = this._codec): boolean {
+        if (this._expired) return false;
         if (this.isConnected()) {
-            const data = WssBridgePackData.serialize(pack, this._pwd, this._binary);
+            const data = WssBridgePackData.serialize(pack, this._pwd, this._binary, this._cipher, codec);
             if (!data) {
                 if (this._onerror) this._onerror.call(this._context, 'Serialize Error', this._params);
-                return;
+                return false;
             }
             this._socket.send(data);
+            this._stats.bytesOut += this.getByteLength(data);
+            this._stats.packsOut++;
             this.printPackData('sendPackData >>>', pack);
+            return true;
+        }
+        return false;
+    }
+    private sendRequest(pack: WssBridgePackData, request: WssBridgeRequest, codec: WssBridgeCodec = this._codec, offline: WssBridgeOfflinePolicy = this._offlinePolicy) {
+        if (!this.isConnected()) {
+            if (offline === 'queue' && !this._expired && this._queue.length < this._queueLimit) {
+                this._queue.push({ pack: pack, request: request, codec: codec });
+                return;
+            }
+            if (request && offline !== 'drop') request.callError(new WssBridgeResponse(WssBridgeResponse.CODE_DISCONNECT.code, WssBridgeResponse.CODE_DISCONNECT.data));
+            return;
+        }
+        if (request) this._requests[pack.reqId] = request;//有监听器的放入请求队列
+        if (!this.sendPackData(pack, codec) && request) {
+            delete this._requests[pack.reqId];
+            request.callError(new WssBridgeResponse(WssBridgeResponse.CODE_SERIALIZE.code, WssBridgeResponse.CODE_SERIALIZE.data));
+        }
+    }
+    private flushQueue() {
+        const queue = this._queue;
+        this._queue = [];//先清空再发送，发送过程中断开时剩余的请求按照默认方式处理
+        for (let i = 0; i < queue.length; i++) {
+            this.sendRequest(queue[i].pack, queue[i].request, queue[i].codec);
+        }
+    }
+    private dequeue(request: WssBridgeRequest): boolean {
+        for (let i = 0; i < this._queue.length; i++) {
+            if (this._queue[i].request === request) {
+                this._queue.splice(i, 1);
+                return true;
+            }
+        }
+        return false;
+    }
+    private getRetryDelay(count: number): number {
+        const delay = Math.min(this._reconnect.delay * Math.pow(this._reconnect.factor, count), this._reconnect.maxDelay);
+        return delay * (1 - this._reconnect.jitter * Math.random());
+    }
+    private setState(state: WssBridgeState, reason: string, code: number = 0, detail: string = null) {
+        if (this._stats.state === state) return;
+        const change: WssBridgeStateChange = { from: this._stats.state, to: state, reason: reason, code: code, detail: detail, time: Date.now() };
+        this._stats.state = state;
+        this._stats.stateTime = change.time;
+        if (this._logLevel < WssBridge.LOG_LEVEL_NONE) console.log('state:', change.from, '->', change.to, reason);
+        this.triggerEvent(new WssBridgePackData(WssBridgePackData.ROUTE_STATE, undefined, change));
+    }
+    private updateNetDelay(delay: number) {
+        this._netDelay = delay;
+        this._stats.rtt.push(delay);
+        if (this._stats.rtt.length > WssBridge.RTT_HISTORY) this._stats.rtt.shift();
+    }
+    private getByteLength(data: any): number {
+        if (typeof data !== 'string') return data ? data.byteLength || 0 : 0;
+        let length = 0;//按照UTF-8编码计算
+        for (let i = 0; i < data.length; i++) {
+            const code = data.charCodeAt(i);
+            if (code < 0x80) {
+                length += 1;
+            } else if (code < 0x800) {
+                length += 2;
+            } else if (code >= 0xd800 && code < 0xdc00 && i + 1 < data.length) {
+                length += 4;//代理对
+                i++;
+            } else {
+                length += 3;
+            }
+        }
+        return length;
+    }
+    private matchRoutes(route: string): string[] {
+        const result = [route];
+        if (route.charAt(0) === '$') return result;//内部路由不匹配通配符
+        for (let index = route.lastIndexOf('.'); index > 0; index = route.lastIndexOf('.', index - 1)) {
+            result.push(route.substring(0, index + 1) + '*');
+        }
+        result.push('*');
+        return result;
+    }
+    private removeListenerItem(route: string, listener: WssBridgeListener) {
+        const listeners: WssBridgeListener[] = this._listeners[route];
+        if (!listeners) return;
+        const index = listeners.indexOf(listener);
+        if (index >= 0) listeners.splice(index, 1);
+        if (listeners.length === 0) delete this._listeners[route];
+    }
+    private clearRequests(error: { code: number, data: string }) {
+        const requests = this._requests;
+        this._requests = {};//先清空再回调，防止回调中发起的新请求被清除
+        for (let reqId in requests) {
+            requests[reqId].callError(new WssBridgeResponse(error.code, error.data));
         }
     }
     private readPackData(data: any) {
-        const pack = WssBridgePackData.deserialize(data, this._pwd);
+        let pack = WssBridgePackData.deserialize(data, this._pwd, this._codec);
+        if ((!pack || typeof pack.route !== 'string') && this._handshakeReqId !== null && this._codec !== WssBridgePackData.CODEC_JSON) {
+            //握手响应总是使用JSON编解码器
+            const json = WssBridgePackData.deserialize(data, this._pwd, WssBridgePackData.CODEC_JSON);
+            if (json && json.route === WssBridgePackData.ROUTE_RESPONSE && json.reqId === this._handshakeReqId) pack = json;
+        }
         if (!pack) {
             if (this._onerror) this._onerror.call(this._context, 'Deserialize Error', this._params);
             return;
@@ -296,14 +741,18 @@ export class WssBridge {
         switch (pack.route) {
             case WssBridgePackData.ROUTE_HEARTICK:
                 //服务端心跳响应
-                this._netDelay = Date.now() - pack.message;//更新网络延迟
+                this.updateNetDelay(Date.now() - pack.message);//更新网络延迟
                 if (this._logLevel === WssBridge.LOG_LEVEL_ALL) console.log('net delay:', this._netDelay + 'ms');
                 break;
+            case WssBridgePackData.ROUTE_RESUME:
+                //服务端下发会话恢复令牌
+                this._resumeToken = pack.message ? pack.message.token : null;
+                break;
             case WssBridgePackData.ROUTE_RESPONSE:
                 //客户端请求响应
                 const request: WssBridgeRequest = this._requests[pack.reqId];
                 if (!request) return;//超时的响应，监听器已经被_timer删除
-                this._netDelay = Date.now() - request.time;//更新网络延迟
+                this.updateNetDelay(Date.now() - request.time);//更新网络延迟
                 if (this._logLevel === WssBridge.LOG_LEVEL_ALL) console.log('net delay:', this._netDelay + 'ms');
                 const message = pack.message || {};
                 const resp = new WssBridgeResponse(message.code, message.data);
@@ -316,10 +765,34 @@ export class WssBridge {
                 break;
             default:
                 //服务器主动推送
+                if (pack.msgId !== undefined && pack.msgId !== null) {
+                    this.sendPackData(new WssBridgePackData(WssBridgePackData.ROUTE_ACKNOWLEDGE, this._reqIdInc++, { msgId: pack.msgId }));//确认送达
+                    if (this._msgIdList.lastIndexOf(pack.msgId) >= 0) return;//丢弃重复的消息
+                    if (this._msgIdList.length >= 256) this._msgIdList.splice(0, 128);//清掉队列前的一半缓存
+                    this._msgIdList.push(pack.msgId);
+                }
                 this.triggerEvent(pack);
                 break;
         }
     }
+    private handshake() {
+        const reqId = this._reqIdInc++;
+        const message: WssBridgeHandshake = { version: WssBridgePackData.PROTOCOL_VERSION, codec: this._codec.name, cipher: this._cipher, binary: this._binary, client: this._clientInfo };
+        const onhandshake = (resp: WssBridgeResponse) => {
+            if (this._handshakeReqId === reqId) this._handshakeReqId = null;
+            if (resp.code === WssBridgeResponse.CODE_UPGRADE.code) this._paused = true;//服务端不支持此客户端，重连也无法成功
+            this.triggerEvent(new WssBridgePackData(WssBridgePackData.ROUTE_HANDSHAKE, undefined, resp));
+        };
+        this._handshakeReqId = reqId;
+        this.sendRequest(new WssBridgePackData(WssBridgePackData.ROUTE_HANDSHAKE, reqId, message), new WssBridgeRequest(onhandshake, onhandshake, this), WssBridgePackData.CODEC_JSON);
+    }
+    private resumeSession() {
+        const onresume = (resp: WssBridgeResponse) => {
+            if (!resp.ok) this._resumeToken = null;//令牌已失效，需要重新登录
+            this.triggerEvent(new WssBridgePackData(WssBridgePackData.ROUTE_RESUME, undefined, resp));
+        };
+        this.sendRequest(new WssBridgePackData(WssBridgePackData.ROUTE_RESUME, this._reqIdInc++, { token: this._resumeToken }), new WssBridgeRequest(onresume, onresume, this));
+    }
     private printPackData(title: string, pack: WssBridgePackData) {
         if (pack.route === WssBridgePackData.ROUTE_HEARTICK) {
             if (this._logLevel === WssBridge.LOG_LEVEL_ALL) {
@@ -348,19 +821,48 @@ export class WssBridge {
          * 2 CLOSING - The connection is in the process of closing.
          * 3 CLOSED- The connection is closed.
          */
-        this._socket = new WebSocket(this._host, this.isNative() ? { rejectUnauthorized: false } : undefined);//创建WebSocket对象
+        this._socket = new WebSocket(this.getConnectUrl(), this.isNative() ? { rejectUnauthorized: false, headers: this._authHeaders || undefined } : undefined);//创建WebSocket对象
         this._socket.binaryType = 'arraybuffer';
         this._socket.onopen = (e) => { this.onSocketOpen(e) };//添加连接打开侦听，连接成功会调用此方法
         this._socket.onmessage = (e) => { this.onSocketMessage(e) };//添加收到数据侦听，收到数据会调用此方法
         this._socket.onclose = (e) => { this.onSocketClose(e) };//添加连接关闭侦听，手动关闭或者服务器关闭连接会调用此方法
         this._socket.onerror = (e) => { this.onSocketError(e) };//添加异常侦听，出现异常会调用此方法
     }
+    private getConnectUrl(): string {
+        if (!this._authQuery) return this._host;
+        const items = [];
+        for (let key in this._authQuery) {
+            if (this._authQuery[key] === undefined || this._authQuery[key] === null) continue;
+            items.push(encodeURIComponent(key) + '=' + encodeURIComponent(String(this._authQuery[key])));
+        }
+        if (items.length === 0) return this._host;
+        return this._host + (this._host.indexOf('?') >= 0 ? '&' : '?') + items.join('&');
+    }
     private safeClose(code: number, reason: string) {
         if (this._socket) {
             this._socket.close(code, reason);
             this._socket = null;
         }
     }
+    /**
+     * 设置客户端信息，设置后每次建立连接（包括断线重连）时先与服务端握手，交换协议版本、编解码器、加密模式以及客户端信息
+     * 服务端不支持此客户端时将以WssBridgeResponse.CODE_UPGRADE通知ROUTE_HANDSHAKE的监听器并暂停断线自动重连
+     * 注意：需要服务端支持握手，旧版本的服务端会因为路由不存在而关闭连接
+     * @param clientInfo 客户端信息，如：{ platform: 'ios', appVersion: '1.2.0' }
+     */
+    public setClientInfo(clientInfo: { [key: string]: any }) {
+        this._clientInfo = clientInfo;
+    }
+    /**
+     * 设置握手认证数据，在下一次建立连接（包括断线重连）时生效
+     * 注意：浏览器环境下WebSocket不支持自定义请求头，请使用查询参数或cookie传递认证数据
+     * @param query 附加到连接地址的查询参数
+     * @param headers 附加的请求头，仅node环境下生效
+     */
+    public setAuthData(query?: { [key: string]: string | number | boolean }, headers?: { [key: string]: string }) {
+        this._authQuery = query || null;
+        this._authHeaders = headers || null;
+    }
     /**
      * 开始进行网络连接
      * @param onopen 网络连接建立时的回调
@@ -379,8 +881,17 @@ export class WssBridge {
         this._onsecond = onsecond;
         this._context = context || this;
         this._params = params;
+        //浏览器环境下监听网络状态
+        if (!this._onlineListener && typeof window === 'object' && window && typeof window.addEventListener === 'function') {
+            this._onlineListener = (e) => { this.setOnline(e.type === 'online') };
+            window.addEventListener('online', this._onlineListener);
+            window.addEventListener('offline', this._onlineListener);
+            if (typeof navigator === 'object' && navigator && navigator.onLine === false) this._online = false;
+        }
         //打开
+        this.setState('connecting', 'connect');
         this.safeOpen();//安全开启连接
+        if (this._timer) clearInterval(this._timer);//重复调用connect时只保留一个计时器
         this._timer = setInterval(() => { this.onTimerTick() }, 1000);
     }
     /**
@@ -390,12 +901,54 @@ export class WssBridge {
     public disconnect() {
         if (this._logLevel < WssBridge.LOG_LEVEL_NONE) console.log('disconnected', this._host);
         this._expired = true;
+        this._resumeToken = null;
         //关闭
         if (this._timer) {
             clearInterval(this._timer);
             this._timer = null;
         }
+        if (this._onlineListener) {
+            window.removeEventListener('online', this._onlineListener);
+            window.removeEventListener('offline', this._onlineListener);
+            this._onlineListener = null;
+        }
         this.safeClose(WssBridgePackData.CODE_CALL.code, WssBridgePackData.CODE_CALL.data);//安全关闭连接
+        this.clearRequests(WssBridgeResponse.CODE_DISCONNECT);
+        const queue = this._queue;
+        this._queue = [];
+        for (let i = 0; i < queue.length; i++) {
+            if (queue[i].request) queue[i].request.callError(new WssBridgeResponse(WssBridgeResponse.CODE_DISCONNECT.code, WssBridgeResponse.CODE_DISCONNECT.data));
+        }
+        this.setState('disposed', 'disconnect');
+    }
+    /**
+     * 设置断线重连的退避策略，默认每conntick秒重连一次且不限制次数
+     * 例如：{ delay: 1000, maxDelay: 30000, factor: 2, jitter: 0.5, maxRetries: 20 }
+     * @param options 
+     */
+    public setReconnect(options: WssBridgeReconnectOptions) {
+        Object.assign(this._reconnect, options);
+    }
+    /**
+     * 设置未连接时的发送队列，队列中的请求在连接建立时紧随握手与会话恢复请求之后按顺序发送（不等待其响应），队列已满时按照fail处理
+     * @param limit 队列的最大长度，0不使用队列
+     * @param offline 请求未指定offline选项时的默认处理方式
+     */
+    public setSendQueue(limit: number, offline: WssBridgeOfflinePolicy = 'queue') {
+        this._queueLimit = limit;
+        this._offlinePolicy = offline;
+    }
+    /**
+     * 设置网络是否可用，网络不可用时暂停重连，恢复可用时立即重连
+     * 浏览器环境下自动监听online与offline事件，其它环境（如：小程序、React Native）请根据平台的网络状态调用此函数
+     * @param online 
+     */
+    public setOnline(online: boolean) {
+        this._online = online;
+        if (online && !this._expired && !this.isConnected()) {
+            this._retryCnt = 0;
+            this._retryTime = 0;
+        }
     }
     /**
      * 向远程服务器发起请求
@@ -405,15 +958,74 @@ export class WssBridge {
      * @param onerror 请求失败的回调
      * @param context 触发回调函数时的绑定的上下文信息
      * @param params 触发回调函数时会传回这个参数
+     * @param options 请求选项（不支持signal）
      */
-    public request(route: string, message: any, onsuccess?: WssBridgeRequestCallback, onerror?: WssBridgeRequestCallback, context?: any, params?: any[]) {
+    public request<K extends WssBridgeRouteName<Routes>>(route: K, message: WssBridgeRequestOf<Routes, K>, onsuccess?: WssBridgeRequestCallback<WssBridgeResponseOf<Routes, K>>, onerror?: WssBridgeRequestCallback, context?: any, params?: any[], options: WssBridgeRequestOptions = {}) {
         const reqId = this._reqIdInc++;
-        if (onsuccess || onerror) this._requests[reqId] = new WssBridgeRequest(onsuccess, onerror, context, params);//有监听器的放入请求队列
-        this.sendPackData(new WssBridgePackData(route, reqId, message));
+        this.sendRequest(new WssBridgePackData(route, reqId, message), onsuccess || onerror ? new WssBridgeRequest(onsuccess, onerror, context, params, options.timeout) : null, this._codec, options.offline);
+    }
+    /**
+     * 向远程服务器发起请求，返回的Promise不会被reject，失败时resolve的WssBridgeResponse状态码为服务端返回的状态码或者：
+     * WssBridgeResponse.CODE_TIMEOUT 请求超时
+     * WssBridgeResponse.CODE_DISCONNECT 未连接或等待响应时连接断开
+     * WssBridgeResponse.CODE_SERIALIZE 请求数据序列化失败
+     * WssBridgeResponse.CODE_ABORTED 请求被options.signal取消
+     * @param route 远程服务器路由地址
+     * @param message 数据包
+     * @param options 请求选项
+     */
+    public requestAsync<K extends WssBridgeRouteName<Routes>>(route: K, message: WssBridgeRequestOf<Routes, K>, options: WssBridgeRequestOptions = {}): Promise<WssBridgeResponse<WssBridgeResponseOf<Routes, K>>> {
+        return new Promise((resolve) => {
+            const signal = options.signal;
+            if (signal && signal.aborted) {
+                resolve(new WssBridgeResponse<any>(WssBridgeResponse.CODE_ABORTED.code, WssBridgeResponse.CODE_ABORTED.data));
+                return;
+            }
+            const reqId = this._reqIdInc++;
+            const onabort = () => {
+                if (this._requests[reqId] === request) {
+                    delete this._requests[reqId];
+                } else if (!this.dequeue(request)) {
+                    return;
+                }
+                finish(new WssBridgeResponse(WssBridgeResponse.CODE_ABORTED.code, WssBridgeResponse.CODE_ABORTED.data));
+            };
+            const finish = (resp: WssBridgeResponse) => {
+                if (signal) signal.removeEventListener('abort', onabort);
+                resolve(resp);
+            };
+            const request = new WssBridgeRequest(finish, finish, this, undefined, options.timeout);
+            if (signal) signal.addEventListener('abort', onabort);
+            this.sendRequest(new WssBridgePackData(route, reqId, message), request, this._codec, options.offline === 'drop' ? 'fail' : options.offline);
+        });
+    }
+    /**
+     * 添加指定route的监听器，返回删除该监听器的函数
+     * @param route 网络路由名称、本地自定义事件名称，支持通配符：'*'匹配全部推送路由（不包括$开头的内部路由），'chat.*'匹配'chat.'开头的全部路由（包括'chat.room.msg'）
+     * @param handler 触发时的回调，pack为收到的数据包
+     * @param once 是否触发一次后，自动删除此监听器
+     */
+    public on<K extends WssBridgeRoutePattern<Routes>>(route: K, handler: (message: WssBridgeMessageOf<Routes, K>, pack: WssBridgePackData) => void, once: boolean = false): () => void {
+        let listeners: WssBridgeListener[] = this._listeners[route];
+        if (listeners === undefined) {
+            listeners = [];
+            this._listeners[route] = listeners;
+        }
+        const listener = new WssBridgeListener(once, (message: any, params: any[], pack: WssBridgePackData) => handler(message, pack));
+        listeners.push(listener);
+        return () => this.removeListenerItem(route, listener);
+    }
+    /**
+     * 添加指定route只触发一次的监听器，返回删除该监听器的函数
+     * @param route 参考on
+     * @param handler 触发时的回调，pack为收到的数据包
+     */
+    public once<K extends WssBridgeRoutePattern<Routes>>(route: K, handler: (message: WssBridgeMessageOf<Routes, K>, pack: WssBridgePackData) => void): () => void {
+        return this.on(route, handler, true);
     }
     /**
      * 添加指定route的监听器，可用作自由定义事件的管理器
-     * @param route 网络路由名称、本地自定义事件名称
+     * @param route 网络路由名称、本地自定义事件名称，支持与on相同的通配符
      * @param once 是否触发一次后，自动删除此路由
      * @param onmessage 触发时的回调
      * @param context 触发回调函数时的绑定的上下文信息
@@ -457,7 +1069,7 @@ export class WssBridge {
         }
     }
     /**
-     * 设置监听器的前置解码器，该解码器将在addListener设置的监听器回调之前调用
+     * 设置监听器的前置解码器，该解码器将在监听器回调之前调用，已通过setDecoder设置了解码器的路由与'$'开头的内部路由不使用此解码器
      * * @param listenerDecoder 自定义解码器
      */
     public setListenerDecoder(listenerDecoder: WssBridgeListenerDecoder, listenerContext?: any) {
@@ -465,33 +1077,59 @@ export class WssBridge {
         this._listenerContext = listenerContext || this;
     }
     /**
-     * 手动触发pack.route对应的全部监听器
+     * 设置指定路由的解码器，解码结果将传给该路由的全部监听器
+     * @param route 支持与on相同的通配符，多个匹配时优先使用完整路由，其次为最长的命名空间
+     * @param decoder 自定义解码器，传null删除
+     */
+    public setDecoder<K extends WssBridgeRoutePattern<Routes>>(route: K, decoder: (pack: WssBridgePackData) => WssBridgeMessageOf<Routes, K>) {
+        if (decoder) {
+            this._decoders[route] = decoder;
+        } else {
+            delete this._decoders[route];
+        }
+    }
+    /**
+     * 手动触发pack.route对应的全部监听器，包括通配符匹配的监听器
      * @param pack 路由包装实例
      */
     public triggerEvent(pack: WssBridgePackData) {
-        const listeners: WssBridgeListener[] = this._listeners[pack.route];
-        if (!listeners) return;
-        const oncelist: WssBridgeListener[] = [];//删除只触发一次的监听
-        const message = !this._listenerDecoder ? pack.message : this._listenerDecoder.call(this._listenerContext, pack);
-        for (let i = 0; i < listeners.length; i++) {
-            const item = listeners[i];
-            item.callMessage(message);
-            if (item.once) {
-                oncelist.push(item);
-            }
+        const routes = this.matchRoutes(pack.route);
+        let found = false;
+        let decoder: WssBridgeListenerDecoder = null;
+        for (let i = 0; i < routes.length; i++) {
+            if (this._listeners[routes[i]]) found = true;
+            if (!decoder) decoder = this._decoders[routes[i]];
         }
-        for (let i = 0; i < oncelist.length; i++) {
-            this.removeListener(pack.route, oncelist[i].onmessage);
+        if (!found) return;
+        const inner = pack.route.charAt(0) === '$';//内部路由（如：连接状态、握手、会话恢复）的数据不使用通用解码器
+        const message = decoder ? decoder.call(this, pack) : (!this._listenerDecoder || inner ? pack.message : this._listenerDecoder.call(this._listenerContext, pack));
+        for (let i = 0; i < routes.length; i++) {
+            const listeners: WssBridgeListener[] = this._listeners[routes[i]];
+            if (!listeners) continue;
+            const list = listeners.slice();//回调中可能添加或删除监听器
+            for (let j = 0; j < list.length; j++) {
+                const item = list[j];
+                if (item.once) this.removeListenerItem(routes[i], item);//删除只触发一次的监听
+                item.callMessage(message, pack);
+            }
         }
     }
     /**
      * 暂停断线自动重连的功能
      */
-    public pauseReconnect() { this._paused = true; }
+    public pauseReconnect() {
+        this._paused = true;
+        if (this._stats.state === 'reconnecting') this.setState('paused', 'pause');
+    }
     /**
-     * 恢复断线自动重连的功能
+     * 恢复断线自动重连的功能，重连次数从0重新计算
      */
-    public resumeReconnect() { this._paused = false; }
+    public resumeReconnect() {
+        this._paused = false;
+        this._retryCnt = 0;
+        this._retryTime = 0;
+        if (this._stats.state === 'paused') this.setState('reconnecting', 'resume');
+    }
     /**
      * 设置调试日志输出级别
      * @param level 日志级别，有效值为 WssBridge.LOG_LEVEL_XXX
@@ -501,6 +1139,18 @@ export class WssBridge {
      * 获取当前网络延迟毫秒
      */
     public getNetDelay(): number { return this._netDelay; }
+    /**
+     * 获取发送队列中等待发送的请求数量
+     */
+    public getQueueSize(): number { return this._queue.length; }
+    /**
+     * 获取当前的连接状态，状态变化时通知WssBridgePackData.ROUTE_STATE的监听器
+     */
+    public getState(): WssBridgeState { return this._stats.state; }
+    /**
+     * 获取连接状态与统计信息的副本
+     */
+    public getStats(): WssBridgeStats { return Object.assign({}, this._stats, { rtt: this._stats.rtt.slice() }); }
     /**
      * 是否已经建立网络连接
      */
@@ -509,4 +1159,10 @@ export class WssBridge {
      * 是否为服务端node环境
      */
     public isNative(): boolean { return typeof module === 'object'; }
+}
+
+interface WssBridgeQueueItem {
+    pack: WssBridgePackData;//待发送的数据包
+    request: WssBridgeRequest;//请求回调，不需要回调时为null
+    codec: WssBridgeCodec;//发送时使用的编码
 }
\ No newline at end of file
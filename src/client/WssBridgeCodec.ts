@@ -0,0 +1,438 @@
+/**
+ * WssBridgePackData的编解码器，服务端与客户端必须使用相同的编解码器
+ * JSON：文本格式，兼容旧版本，二进制数据（ArrayBuffer、Uint8Array等）无法直接传输
+ * MessagePack：二进制格式，参考 https://github.com/msgpack/msgpack/blob/master/spec.md
+ * CBOR：二进制格式，参考 https://www.rfc-editor.org/rfc/rfc8949.html
+ * 二进制格式的编解码器可以直接传输二进制数据（如语音、图片），解码后统一为Uint8Array
+ * 与JSON.stringify保持一致：对象中值为undefined或function的字段将被忽略，拥有toJSON函数的对象（如Date）先调用toJSON（Buffer等二进制数据除外）
+ */
+export interface WssBridgeCodec {
+    readonly name: string;//编解码器名称
+    readonly binary: boolean;//encode是否返回二进制数据
+    /**
+     * 编码
+     * @param data 要编码的数据
+     */
+    encode(data: any): Uint8Array | string;
+    /**
+     * 解码，数据格式不正确时抛出异常
+     * @param data 要解码的数据
+     */
+    decode(data: Uint8Array | string): any;
+}
+
+export class WssBridgeJsonCodec implements WssBridgeCodec {
+    public readonly name = 'json';
+    public readonly binary = false;
+    public encode(data: any): string {
+        return JSON.stringify(data);
+    }
+    public decode(data: Uint8Array | string): any {
+        return JSON.parse(typeof data === 'string' ? data : decodeUtf8(data, 0, data.length));
+    }
+}
+
+export class WssBridgeMsgPackCodec implements WssBridgeCodec {
+    public readonly name = 'msgpack';
+    public readonly binary = true;
+    public encode(data: any): Uint8Array {
+        const writer = new ByteWriter();
+        this.write(writer, data);
+        return writer.toBytes();
+    }
+    public decode(data: Uint8Array | string): any {
+        if (typeof data === 'string') throw Error('msgpack: unexpected text data');
+        const reader = new ByteReader(data);
+        const result = this.read(reader);
+        if (reader.remain() > 0) throw Error('msgpack: unexpected trailing bytes');
+        return result;
+    }
+    private write(writer: ByteWriter, value: any) {
+        if (value && typeof value.toJSON === 'function' && !(value instanceof ArrayBuffer || ArrayBuffer.isView(value))) value = value.toJSON();//Buffer等二进制数据按照bin编码，不使用toJSON的结果
+        if (value === null || value === undefined || typeof value === 'function') {
+            writer.writeUint8(0xc0);
+        } else if (typeof value === 'boolean') {
+            writer.writeUint8(value ? 0xc3 : 0xc2);
+        } else if (typeof value === 'number') {
+            if (Number.isSafeInteger(value)) {
+                if (value >= 0) {
+                    if (value < 0x80) writer.writeUint8(value);
+                    else if (value < 0x100) { writer.writeUint8(0xcc); writer.writeUint8(value); }
+                    else if (value < 0x10000) { writer.writeUint8(0xcd); writer.writeUint16(value); }
+                    else if (value < 0x100000000) { writer.writeUint8(0xce); writer.writeUint32(value); }
+                    else { writer.writeUint8(0xcf); writer.writeUint64(value); }
+                } else {
+                    if (value >= -0x20) writer.writeUint8(value & 0xff);
+                    else if (value >= -0x80) { writer.writeUint8(0xd0); writer.writeUint8(value & 0xff); }
+                    else if (value >= -0x8000) { writer.writeUint8(0xd1); writer.writeUint16(value & 0xffff); }
+                    else if (value >= -0x80000000) { writer.writeUint8(0xd2); writer.writeUint32(value >>> 0); }
+                    else { writer.writeUint8(0xd3); writer.writeUint64(value); }
+                }
+            } else {
+                writer.writeUint8(0xcb);
+                writer.writeFloat64(value);
+            }
+        } else if (typeof value === 'string') {
+            const bytes = encodeUtf8(value);
+            if (bytes.length < 0x20) writer.writeUint8(0xa0 | bytes.length);
+            else if (bytes.length < 0x100) { writer.writeUint8(0xd9); writer.writeUint8(bytes.length); }
+            else if (bytes.length < 0x10000) { writer.writeUint8(0xda); writer.writeUint16(bytes.length); }
+            else { writer.writeUint8(0xdb); writer.writeUint32(bytes.length); }
+            writer.writeBytes(bytes);
+        } else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+            const bytes = toUint8Array(value);
+            if (bytes.length < 0x100) { writer.writeUint8(0xc4); writer.writeUint8(bytes.length); }
+            else if (bytes.length < 0x10000) { writer.writeUint8(0xc5); writer.writeUint16(bytes.length); }
+            else { writer.writeUint8(0xc6); writer.writeUint32(bytes.length); }
+            writer.writeBytes(bytes);
+        } else if (Array.isArray(value)) {
+            if (value.length < 0x10) writer.writeUint8(0x90 | value.length);
+            else if (value.length < 0x10000) { writer.writeUint8(0xdc); writer.writeUint16(value.length); }
+            else { writer.writeUint8(0xdd); writer.writeUint32(value.length); }
+            for (let i = 0; i < value.length; i++) this.write(writer, value[i]);
+        } else if (typeof value === 'object') {
+            const keys = Object.keys(value).filter((key) => value[key] !== undefined && typeof value[key] !== 'function');
+            if (keys.length < 0x10) writer.writeUint8(0x80 | keys.length);
+            else if (keys.length < 0x10000) { writer.writeUint8(0xde); writer.writeUint16(keys.length); }
+            else { writer.writeUint8(0xdf); writer.writeUint32(keys.length); }
+            for (let i = 0; i < keys.length; i++) {
+                this.write(writer, keys[i]);
+                this.write(writer, value[keys[i]]);
+            }
+        } else {
+            throw Error('msgpack: unsupported type ' + typeof value);
+        }
+    }
+    private read(reader: ByteReader): any {
+        const type = reader.readUint8();
+        if (type < 0x80) return type;//positive fixint
+        if (type < 0x90) return this.readMap(reader, type & 0x0f);//fixmap
+        if (type < 0xa0) return this.readArray(reader, type & 0x0f);//fixarray
+        if (type < 0xc0) return reader.readString(type & 0x1f);//fixstr
+        if (type >= 0xe0) return type - 0x100;//negative fixint
+        switch (type) {
+            case 0xc0: return null;
+            case 0xc2: return false;
+            case 0xc3: return true;
+            case 0xc4: return reader.readBytes(reader.readUint8());
+            case 0xc5: return reader.readBytes(reader.readUint16());
+            case 0xc6: return reader.readBytes(reader.readUint32());
+            case 0xca: return reader.readFloat32();
+            case 0xcb: return reader.readFloat64();
+            case 0xcc: return reader.readUint8();
+            case 0xcd: return reader.readUint16();
+            case 0xce: return reader.readUint32();
+            case 0xcf: return reader.readUint64();
+            case 0xd0: return reader.readInt8();
+            case 0xd1: return reader.readInt16();
+            case 0xd2: return reader.readInt32();
+            case 0xd3: return reader.readInt64();
+            case 0xd9: return reader.readString(reader.readUint8());
+            case 0xda: return reader.readString(reader.readUint16());
+            case 0xdb: return reader.readString(reader.readUint32());
+            case 0xdc: return this.readArray(reader, reader.readUint16());
+            case 0xdd: return this.readArray(reader, reader.readUint32());
+            case 0xde: return this.readMap(reader, reader.readUint16());
+            case 0xdf: return this.readMap(reader, reader.readUint32());
+            default: throw Error('msgpack: unsupported type 0x' + type.toString(16));
+        }
+    }
+    private readArray(reader: ByteReader, length: number): any[] {
+        const result = [];
+        for (let i = 0; i < length; i++) result.push(this.read(reader));
+        return result;
+    }
+    private readMap(reader: ByteReader, length: number): { [key: string]: any } {
+        const result: { [key: string]: any } = {};
+        for (let i = 0; i < length; i++) {
+            const key = this.read(reader);
+            setMapValue(result, String(key), this.read(reader));
+        }
+        return result;
+    }
+}
+
+export class WssBridgeCborCodec implements WssBridgeCodec {
+    public readonly name = 'cbor';
+    public readonly binary = true;
+    public encode(data: any): Uint8Array {
+        const writer = new ByteWriter();
+        this.write(writer, data);
+        return writer.toBytes();
+    }
+    public decode(data: Uint8Array | string): any {
+        if (typeof data === 'string') throw Error('cbor: unexpected text data');
+        const reader = new ByteReader(data);
+        const result = this.read(reader);
+        if (result === CBOR_BREAK) throw Error('cbor: unexpected break');
+        if (reader.remain() > 0) throw Error('cbor: unexpected trailing bytes');
+        return result;
+    }
+    private writeHead(writer: ByteWriter, major: number, length: number) {
+        if (length < 24) writer.writeUint8((major << 5) | length);
+        else if (length < 0x100) { writer.writeUint8((major << 5) | 24); writer.writeUint8(length); }
+        else if (length < 0x10000) { writer.writeUint8((major << 5) | 25); writer.writeUint16(length); }
+        else if (length < 0x100000000) { writer.writeUint8((major << 5) | 26); writer.writeUint32(length); }
+        else { writer.writeUint8((major << 5) | 27); writer.writeUint64(length); }
+    }
+    private write(writer: ByteWriter, value: any) {
+        if (value && typeof value.toJSON === 'function' && !(value instanceof ArrayBuffer || ArrayBuffer.isView(value))) value = value.toJSON();//Buffer等二进制数据按照bstr编码，不使用toJSON的结果
+        if (value === null || value === undefined || typeof value === 'function') {
+            writer.writeUint8(0xf6);
+        } else if (typeof value === 'boolean') {
+            writer.writeUint8(value ? 0xf5 : 0xf4);
+        } else if (typeof value === 'number') {
+            if (Number.isSafeInteger(value)) {
+                if (value >= 0) this.writeHead(writer, 0, value);
+                else this.writeHead(writer, 1, -1 - value);
+            } else {
+                writer.writeUint8(0xfb);
+                writer.writeFloat64(value);
+            }
+        } else if (typeof value === 'string') {
+            const bytes = encodeUtf8(value);
+            this.writeHead(writer, 3, bytes.length);
+            writer.writeBytes(bytes);
+        } else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+            const bytes = toUint8Array(value);
+            this.writeHead(writer, 2, bytes.length);
+            writer.writeBytes(bytes);
+        } else if (Array.isArray(value)) {
+            this.writeHead(writer, 4, value.length);
+            for (let i = 0; i < value.length; i++) this.write(writer, value[i]);
+        } else if (typeof value === 'object') {
+            const keys = Object.keys(value).filter((key) => value[key] !== undefined && typeof value[key] !== 'function');
+            this.writeHead(writer, 5, keys.length);
+            for (let i = 0; i < keys.length; i++) {
+                this.write(writer, keys[i]);
+                this.write(writer, value[keys[i]]);
+            }
+        } else {
+            throw Error('cbor: unsupported type ' + typeof value);
+        }
+    }
+    private readLength(reader: ByteReader, info: number): number {
+        if (info < 24) return info;
+        switch (info) {
+            case 24: return reader.readUint8();
+            case 25: return reader.readUint16();
+            case 26: return reader.readUint32();
+            case 27: return reader.readUint64();
+            case 31: return -1;//不定长
+            default: throw Error('cbor: invalid additional info ' + info);
+        }
+    }
+    private read(reader: ByteReader): any {
+        const head = reader.readUint8();
+        const major = head >> 5;
+        const info = head & 0x1f;
+        if (major === 7) {
+            switch (info) {
+                case 20: return false;
+                case 21: return true;
+                case 22: return null;
+                case 23: return undefined;
+                case 25: return reader.readFloat16();
+                case 26: return reader.readFloat32();
+                case 27: return reader.readFloat64();
+                case 31: return CBOR_BREAK;
+                default: if (info < 24) return undefined;//未分配的简单值
+                    throw Error('cbor: unsupported simple value ' + info);
+            }
+        }
+        const length = this.readLength(reader, info);
+        switch (major) {
+            case 0: return length;
+            case 1: return -1 - length;
+            case 2:
+            case 3: {
+                if (length >= 0) return major === 2 ? reader.readBytes(length) : reader.readString(length);
+                const chunks: Uint8Array[] = [];
+                while (true) {
+                    const chunk = this.read(reader);
+                    if (chunk === CBOR_BREAK) break;
+                    chunks.push(typeof chunk === 'string' ? new Uint8Array(encodeUtf8(chunk)) : chunk);
+                }
+                const bytes = concatBytes(chunks);
+                return major === 2 ? bytes : decodeUtf8(bytes, 0, bytes.length);
+            }
+            case 4: {
+                const result = [];
+                for (let i = 0; length < 0 || i < length; i++) {
+                    const item = this.read(reader);
+                    if (item === CBOR_BREAK) {
+                        if (length < 0) break;
+                        throw Error('cbor: unexpected break');
+                    }
+                    result.push(item);
+                }
+                return result;
+            }
+            case 5: {
+                const result: { [key: string]: any } = {};
+                for (let i = 0; length < 0 || i < length; i++) {
+                    const key = this.read(reader);
+                    if (key === CBOR_BREAK) {
+                        if (length < 0) break;
+                        throw Error('cbor: unexpected break');
+                    }
+                    setMapValue(result, String(key), this.read(reader));
+                }
+                return result;
+            }
+            default: return this.read(reader);//标签（major 6）只返回被标记的数据
+        }
+    }
+}
+
+const CBOR_BREAK = {};//cbor不定长数据的结束标记
+
+class ByteWriter {
+    private _bytes: Uint8Array;
+    private _view: DataView;
+    private _length: number;
+    public constructor() {
+        this._bytes = new Uint8Array(256);
+        this._view = new DataView(this._bytes.buffer);
+        this._length = 0;
+    }
+    public writeUint8(value: number) { this.ensure(1); this._view.setUint8(this._length, value); this._length += 1; }
+    public writeUint16(value: number) { this.ensure(2); this._view.setUint16(this._length, value); this._length += 2; }
+    public writeUint32(value: number) { this.ensure(4); this._view.setUint32(this._length, value); this._length += 4; }
+    public writeFloat64(value: number) { this.ensure(8); this._view.setFloat64(this._length, value); this._length += 8; }
+    public writeUint64(value: number) {
+        //补码形式写入，value为负数时即为int64
+        const high = Math.floor(value / 0x100000000);
+        this.writeUint32(high >>> 0);
+        this.writeUint32((value - high * 0x100000000) >>> 0);
+    }
+    public writeBytes(bytes: ArrayLike<number>) {
+        this.ensure(bytes.length);
+        this._bytes.set(bytes, this._length);
+        this._length += bytes.length;
+    }
+    public toBytes(): Uint8Array {
+        return this._bytes.slice(0, this._length);
+    }
+    private ensure(size: number) {
+        if (this._length + size <= this._bytes.length) return;
+        let capacity = this._bytes.length * 2;
+        while (capacity < this._length + size) capacity *= 2;
+        const bytes = new Uint8Array(capacity);
+        bytes.set(this._bytes.subarray(0, this._length));
+        this._bytes = bytes;
+        this._view = new DataView(bytes.buffer);
+    }
+}
+
+class ByteReader {
+    private _bytes: Uint8Array;
+    private _view: DataView;
+    private _offset: number;
+    public constructor(bytes: Uint8Array) {
+        this._bytes = bytes;
+        this._view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        this._offset = 0;
+    }
+    public remain(): number { return this._bytes.length - this._offset; }
+    public readUint8(): number { return this._view.getUint8(this.skip(1)); }
+    public readUint16(): number { return this._view.getUint16(this.skip(2)); }
+    public readUint32(): number { return this._view.getUint32(this.skip(4)); }
+    public readInt8(): number { return this._view.getInt8(this.skip(1)); }
+    public readInt16(): number { return this._view.getInt16(this.skip(2)); }
+    public readInt32(): number { return this._view.getInt32(this.skip(4)); }
+    public readFloat32(): number { return this._view.getFloat32(this.skip(4)); }
+    public readFloat64(): number { return this._view.getFloat64(this.skip(8)); }
+    public readUint64(): number { return this.readUint32() * 0x100000000 + this.readUint32(); }
+    public readInt64(): number { return this.readInt32() * 0x100000000 + this.readUint32(); }
+    public readFloat16(): number {
+        const half = this.readUint16();
+        const exp = (half >> 10) & 0x1f;
+        const mant = half & 0x3ff;
+        const value = exp === 0 ? mant * Math.pow(2, -24) : (exp === 0x1f ? (mant ? NaN : Infinity) : (mant + 1024) * Math.pow(2, exp - 25));
+        return half & 0x8000 ? -value : value;
+    }
+    public readBytes(length: number): Uint8Array {
+        const offset = this.skip(length);
+        return this._bytes.slice(offset, offset + length);
+    }
+    public readString(length: number): string {
+        const offset = this.skip(length);
+        return decodeUtf8(this._bytes, offset, offset + length);
+    }
+    private skip(length: number): number {
+        if (this._offset + length > this._bytes.length) throw Error('unexpected end of data');
+        const offset = this._offset;
+        this._offset += length;
+        return offset;
+    }
+}
+
+function toUint8Array(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+    return value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    let length = 0;
+    for (let i = 0; i < chunks.length; i++) length += chunks[i].length;
+    const result = new Uint8Array(length);
+    for (let i = 0, offset = 0; i < chunks.length; offset += chunks[i].length, i++) result.set(chunks[i], offset);
+    return result;
+}
+
+function setMapValue(map: { [key: string]: any }, key: string, value: any) {
+    if (key === '__proto__') {
+        Object.defineProperty(map, key, { value: value, enumerable: true, configurable: true, writable: true });//与JSON.parse一致作为普通字段，不修改原型
+    } else {
+        map[key] = value;
+    }
+}
+function encodeUtf8(str: string): number[] {
+    const bytes: number[] = [];
+    for (let i = 0; i < str.length; i++) {
+        let code = str.charCodeAt(i);
+        if (code >= 0xd800 && code < 0xdc00 && i + 1 < str.length) {
+            const next = str.charCodeAt(i + 1);
+            if (next >= 0xdc00 && next < 0xe000) {
+                code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+                i++;
+            }
+        }
+        if (code < 0x80) {
+            bytes.push(code);
+        } else if (code < 0x800) {
+            bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+        } else if (code < 0x10000) {
+            bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        } else {
+            bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        }
+    }
+    return bytes;
+}
+
+function decodeUtf8(bytes: Uint8Array, start: number, end: number): string {
+    let result = '';
+    for (let i = start; i < end;) {
+        const byte = bytes[i++];
+        let code: number;
+        if (byte < 0x80) {
+            code = byte;
+        } else if (byte >= 0xc0 && byte < 0xe0) {
+            code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+        } else if (byte >= 0xe0 && byte < 0xf0) {
+            code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+        } else if (byte >= 0xf0) {
+            code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+        } else {
+            code = 0xfffd;//非法的起始字节
+        }
+        if (code >= 0x10000) {
+            code -= 0x10000;
+            result += String.fromCharCode(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+        } else {
+            result += String.fromCharCode(code);
+        }
+    }
+    return result;
+}
\ No newline at end of file
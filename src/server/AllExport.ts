@@ -1,5 +1,11 @@
+export * from './ChannelStore';
+export * from './ClusterRegistry';
 export * from './EnvContext';
+export * from './JsonSchema';
+export * from './MessageStore';
+export * from './MetricsRegistry';
 export * from './MongoMan';
+export * from './OfflineStore';
 export * from './PM2Adapter';
 export * from './WebServer';
 export * from './WssServer';
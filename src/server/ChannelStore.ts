@@ -0,0 +1,184 @@
+/**
+ * 推送组的持久化信息，保存推送组的创建者、自定义属性、成员及成员角色
+ * WssServer的推送组（joinChannel、quitChannel）只记录本节点在线的session，本存储记录的是与在线状态无关的成员关系，多节点部署时请使用共享的存储
+ * 存储操作失败时必须抛出异常（返回rejected的Promise），WssServer据此返回null或false
+ */
+import type { MongoMan } from './MongoMan';
+
+export type ChannelRole = 'owner' | 'admin' | 'member';
+
+export interface ChannelInfo {
+    gid: string;//推送组id
+    owner: string;//创建者uid
+    meta: { [key: string]: any };//自定义属性，如：名称、头像、公告、房间配置等
+    time: number;//创建时间
+}
+
+export interface ChannelMember {
+    gid: string;//推送组id
+    uid: string;//成员uid
+    role: ChannelRole;//成员角色
+    time: number;//加入时间
+}
+
+export interface ChannelStore {
+    /**
+     * 创建推送组，gid已存在时返回false
+     */
+    createChannel(info: ChannelInfo): Promise<boolean>;
+    /**
+     * 返回推送组信息，不存在时返回null
+     */
+    getChannel(gid: string): Promise<ChannelInfo>;
+    /**
+     * 合并更新推送组的自定义属性，推送组不存在时返回null
+     */
+    updateChannel(gid: string, meta: { [key: string]: any }): Promise<ChannelInfo>;
+    /**
+     * 删除推送组及其全部成员
+     */
+    removeChannel(gid: string): Promise<void>;
+    /**
+     * 添加成员，成员已存在时更新角色
+     */
+    saveMember(member: ChannelMember): Promise<void>;
+    /**
+     * 删除成员，成员不存在时返回false
+     */
+    removeMember(gid: string, uid: string): Promise<boolean>;
+    /**
+     * 返回成员信息，不存在时返回null
+     */
+    getMember(gid: string, uid: string): Promise<ChannelMember>;
+    /**
+     * 按照加入时间顺序返回成员列表
+     * @param role 只返回该角色的成员，不传则返回全部成员
+     */
+    listMembers(gid: string, role?: ChannelRole): Promise<ChannelMember[]>;
+}
+
+export class MemoryChannelStore implements ChannelStore {
+    private _channels: { [key: string]: ChannelInfo };//推送组集合
+    private _members: { [key: string]: { [key: string]: ChannelMember } };//每个推送组的成员集合
+    /**
+     * 单进程内的存储，进程重启后数据将丢失
+     */
+    public constructor() {
+        this._channels = {};
+        this._members = {};
+    }
+    public async createChannel(info: ChannelInfo): Promise<boolean> {
+        if (this._channels[info.gid]) return false;
+        this._channels[info.gid] = { gid: info.gid, owner: info.owner, meta: Object.assign({}, info.meta), time: info.time };
+        this._members[info.gid] = {};
+        return true;
+    }
+    public async getChannel(gid: string): Promise<ChannelInfo> {
+        const info = this._channels[gid];
+        return info ? { gid: info.gid, owner: info.owner, meta: Object.assign({}, info.meta), time: info.time } : null;
+    }
+    public async updateChannel(gid: string, meta: { [key: string]: any }): Promise<ChannelInfo> {
+        const info = this._channels[gid];
+        if (!info) return null;
+        Object.assign(info.meta, meta);
+        return this.getChannel(gid);
+    }
+    public async removeChannel(gid: string): Promise<void> {
+        delete this._channels[gid];
+        delete this._members[gid];
+    }
+    public async saveMember(member: ChannelMember): Promise<void> {
+        const members = this._members[member.gid] || {};
+        const old = members[member.uid];
+        members[member.uid] = { gid: member.gid, uid: member.uid, role: member.role, time: old ? old.time : member.time };
+        this._members[member.gid] = members;
+    }
+    public async removeMember(gid: string, uid: string): Promise<boolean> {
+        const members = this._members[gid];
+        if (!members || !members[uid]) return false;
+        delete members[uid];
+        return true;
+    }
+    public async getMember(gid: string, uid: string): Promise<ChannelMember> {
+        const members = this._members[gid];
+        return members && members[uid] ? Object.assign({}, members[uid]) : null;
+    }
+    public async listMembers(gid: string, role?: ChannelRole): Promise<ChannelMember[]> {
+        const result: ChannelMember[] = [];
+        const members = this._members[gid];
+        for (let uid in members) {
+            if (!role || members[uid].role === role) result.push(Object.assign({}, members[uid]));
+        }
+        return result.sort((a, b) => a.time - b.time);
+    }
+}
+
+export class MongoChannelStore implements ChannelStore {
+    private _mongo: MongoMan;//数据库实例
+    private _table: string;//保存推送组信息的集合名称
+    private _memberTable: string;//保存成员信息的集合名称
+    /**
+     * 使用MongoMan保存推送组信息，适用于多进程、多主机部署的集群
+     * @param mongo 已经连接的MongoMan实例
+     * @param table 保存推送组信息的集合名称
+     * @param memberTable 保存成员信息的集合名称
+     */
+    public constructor(mongo: MongoMan, table: string = 'channels', memberTable: string = 'channel_members') {
+        this._mongo = mongo;
+        this._table = table;
+        this._memberTable = memberTable;
+    }
+    /**
+     * 创建查询所需的索引
+     */
+    public async createIndexes(): Promise<void> {
+        await this._mongo.collection(this._memberTable).createIndex({ gid: 1, time: 1 });
+        await this._mongo.collection(this._memberTable).createIndex({ uid: 1 });
+    }
+    public async createChannel(info: ChannelInfo): Promise<boolean> {
+        const result = await this._mongo.insertOne<ChannelDoc>(this._table, { _id: info.gid, gid: info.gid, owner: info.owner, meta: info.meta, time: info.time });
+        return result > 0;
+    }
+    public async getChannel(gid: string): Promise<ChannelInfo> {
+        const doc = await this._mongo.findOne<ChannelDoc>(this._table, { _id: gid });
+        return doc ? { gid: doc.gid, owner: doc.owner, meta: doc.meta || {}, time: doc.time } : null;
+    }
+    public async updateChannel(gid: string, meta: { [key: string]: any }): Promise<ChannelInfo> {
+        const update: { [key: string]: any } = {};
+        for (let key in meta) update['meta.' + key] = meta[key];
+        const doc = await this._mongo.findOneAndUpdate<ChannelDoc>(this._table, { _id: gid }, { $set: update }, { returnOriginal: false });
+        return doc ? { gid: doc.gid, owner: doc.owner, meta: doc.meta || {}, time: doc.time } : null;
+    }
+    public async removeChannel(gid: string): Promise<void> {
+        if (await this._mongo.deleteOne<ChannelDoc>(this._table, { _id: gid }) < 0) throw Error('channel delete failed');
+        if (await this._mongo.deleteMany<MemberDoc>(this._memberTable, { gid: gid }) < 0) throw Error('channel members delete failed');
+    }
+    public async saveMember(member: ChannelMember): Promise<void> {
+        const result = await this._mongo.updateOne<MemberDoc>(this._memberTable, { _id: member.gid + ':' + member.uid }, { $set: { gid: member.gid, uid: member.uid, role: member.role }, $setOnInsert: { time: member.time } }, { upsert: true });
+        if (result < 0) throw Error('channel member save failed');
+    }
+    public async removeMember(gid: string, uid: string): Promise<boolean> {
+        const result = await this._mongo.deleteOne<MemberDoc>(this._memberTable, { _id: gid + ':' + uid });
+        if (result < 0) throw Error('channel member delete failed');
+        return result > 0;
+    }
+    public async getMember(gid: string, uid: string): Promise<ChannelMember> {
+        const doc = await this._mongo.findOne<MemberDoc>(this._memberTable, { _id: gid + ':' + uid });
+        return doc ? { gid: doc.gid, uid: doc.uid, role: doc.role, time: doc.time } : null;
+    }
+    public async listMembers(gid: string, role?: ChannelRole): Promise<ChannelMember[]> {
+        const query: { [key: string]: any } = { gid: gid };
+        if (role) query.role = role;
+        const docs = await this._mongo.findMany<MemberDoc, MemberDoc>(this._memberTable, query, null, { sort: { time: 1 } });
+        if (!docs) throw Error('channel members find failed');
+        return docs.map((doc) => ({ gid: doc.gid, uid: doc.uid, role: doc.role, time: doc.time }));
+    }
+}
+
+interface ChannelDoc extends ChannelInfo {
+    _id: string;
+}
+
+interface MemberDoc extends ChannelMember {
+    _id: string;
+}
\ No newline at end of file
@@ -0,0 +1,119 @@
+/**
+ * 集群在线注册表，记录uid所在的节点和gid（消息推送组）所在的节点
+ * WssServer在bindUid、unbindUid、joinChannel、quitChannel时自动更新注册表，集群推送时只发送到持有目标的节点
+ * 节点使用ClusterNode.url的格式进行标识，如：ws://127.0.0.1:8080
+ */
+import type { MongoMan } from './MongoMan';
+
+export interface ClusterRegistry {
+    /**
+     * 记录uid已绑定到node
+     */
+    bindUid(uid: string, node: string): Promise<void>;
+    /**
+     * 删除uid绑定到node的记录
+     */
+    unbindUid(uid: string, node: string): Promise<void>;
+    /**
+     * 记录node上存在gid推送组
+     */
+    joinChannel(gid: string, node: string): Promise<void>;
+    /**
+     * 删除node上存在gid推送组的记录
+     */
+    quitChannel(gid: string, node: string): Promise<void>;
+    /**
+     * 查找uid所在的节点，返回null表示查询失败（此时将推送到全部节点）
+     */
+    findUid(uid: string): Promise<string[]>;
+    /**
+     * 查找gid所在的节点，返回null表示查询失败（此时将推送到全部节点）
+     */
+    findChannel(gid: string): Promise<string[]>;
+    /**
+     * 清除node的全部记录，节点启动时调用以清除上次运行残留的记录
+     */
+    clearNode(node: string): Promise<void>;
+}
+
+export class MemoryClusterRegistry implements ClusterRegistry {
+    private _uidMap: { [key: string]: { [key: string]: boolean } };//uid所在的节点集合
+    private _gidMap: { [key: string]: { [key: string]: boolean } };//gid所在的节点集合
+    /**
+     * 单进程内的注册表，适用于单节点部署或同一进程内创建的多个WssServer共用
+     */
+    public constructor() {
+        this._uidMap = {};
+        this._gidMap = {};
+    }
+    public async bindUid(uid: string, node: string): Promise<void> { this.add(this._uidMap, uid, node); }
+    public async unbindUid(uid: string, node: string): Promise<void> { this.remove(this._uidMap, uid, node); }
+    public async joinChannel(gid: string, node: string): Promise<void> { this.add(this._gidMap, gid, node); }
+    public async quitChannel(gid: string, node: string): Promise<void> { this.remove(this._gidMap, gid, node); }
+    public async findUid(uid: string): Promise<string[]> { return Object.keys(this._uidMap[uid] || {}); }
+    public async findChannel(gid: string): Promise<string[]> { return Object.keys(this._gidMap[gid] || {}); }
+    public async clearNode(node: string): Promise<void> {
+        for (let key in this._uidMap) this.remove(this._uidMap, key, node);
+        for (let key in this._gidMap) this.remove(this._gidMap, key, node);
+    }
+    private add(map: { [key: string]: { [key: string]: boolean } }, key: string, node: string) {
+        const nodes = map[key] || {};
+        nodes[node] = true;
+        map[key] = nodes;
+    }
+    private remove(map: { [key: string]: { [key: string]: boolean } }, key: string, node: string) {
+        const nodes = map[key];
+        if (!nodes) return;
+        delete nodes[node];
+        for (let item in nodes) return;
+        delete map[key];
+    }
+}
+
+export class MongoClusterRegistry implements ClusterRegistry {
+    private _mongo: MongoMan;//数据库实例
+    private _table: string;//保存注册信息的集合名称
+    /**
+     * 使用MongoMan保存注册信息，适用于多进程、多主机部署的集群
+     * @param mongo 已经连接的MongoMan实例
+     * @param table 保存注册信息的集合名称
+     */
+    public constructor(mongo: MongoMan, table: string = 'cluster_registry') {
+        this._mongo = mongo;
+        this._table = table;
+    }
+    /**
+     * 创建查询所需的索引
+     */
+    public async createIndexes(): Promise<void> {
+        await this._mongo.collection(this._table).createIndex({ kind: 1, key: 1 });
+        await this._mongo.collection(this._table).createIndex({ node: 1 });
+    }
+    public async bindUid(uid: string, node: string): Promise<void> { await this.add('uid', uid, node); }
+    public async unbindUid(uid: string, node: string): Promise<void> { await this.remove('uid', uid, node); }
+    public async joinChannel(gid: string, node: string): Promise<void> { await this.add('gid', gid, node); }
+    public async quitChannel(gid: string, node: string): Promise<void> { await this.remove('gid', gid, node); }
+    public async findUid(uid: string): Promise<string[]> { return this.find('uid', uid); }
+    public async findChannel(gid: string): Promise<string[]> { return this.find('gid', gid); }
+    public async clearNode(node: string): Promise<void> {
+        await this._mongo.deleteMany<RegistryDoc>(this._table, { node: node });
+    }
+    private async add(kind: 'uid' | 'gid', key: string, node: string) {
+        await this._mongo.updateOne<RegistryDoc>(this._table, { _id: kind + ':' + key + '@' + node }, { $set: { kind: kind, key: key, node: node, time: Date.now() } }, { upsert: true });
+    }
+    private async remove(kind: 'uid' | 'gid', key: string, node: string) {
+        await this._mongo.deleteOne<RegistryDoc>(this._table, { _id: kind + ':' + key + '@' + node });
+    }
+    private async find(kind: 'uid' | 'gid', key: string): Promise<string[]> {
+        const docs = await this._mongo.findMany<RegistryDoc, RegistryDoc>(this._table, { kind: kind, key: key }, null, { projection: { node: 1 } });
+        return docs ? docs.map((doc) => doc.node) : null;
+    }
+}
+
+interface RegistryDoc {
+    _id: string;
+    kind: 'uid' | 'gid';
+    key: string;
+    node: string;
+    time: number;
+}
\ No newline at end of file
@@ -193,6 +193,35 @@ export class EnvContext {
     public getMd5(data: string): string {
         return CryptoJS.MD5(data).toString();
     }
+    /**
+     * 计算HMAC-SHA256
+     * @param data 要计算编码的字符串
+     * @param key 密钥
+     */
+    public getHmacSha256(data: string, key: string): string {
+        return CryptoJS.HmacSHA256(data, key).toString();
+    }
+    /**
+     * 按照键名排序后序列化为JSON字符串，相同内容的对象总是得到相同的结果，其它规则与JSON.stringify相同
+     * @param data 
+     */
+    public stableStringify(data: any): string {
+        if (data && typeof data.toJSON === 'function') data = data.toJSON();
+        if (Array.isArray(data)) {
+            return '[' + data.map((item) => item === undefined || typeof item === 'function' ? 'null' : this.stableStringify(item)).join(',') + ']';
+        }
+        if (data && typeof data === 'object') {
+            const items = [];
+            const keys = Object.keys(data).sort();
+            for (let i = 0; i < keys.length; i++) {
+                const value = data[keys[i]];
+                if (value === undefined || typeof value === 'function') continue;
+                items.push(JSON.stringify(keys[i]) + ':' + this.stableStringify(value));
+            }
+            return '{' + items.join(',') + '}';
+        }
+        return data === undefined ? 'null' : JSON.stringify(data);
+    }
     /**
      * 读取ssl证书并返回
      */
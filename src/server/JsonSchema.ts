@@ -0,0 +1,183 @@
+/**
+ * JSON-Schema的精简校验器，WssServer与WebServer的路由共用同一套定义
+ * JSON-Schema相关信息：https://json-schema.org/
+ * 支持的关键字：type、enum、const、properties、required、additionalProperties、items、
+ * minItems、maxItems、uniqueItems、minLength、maxLength、pattern、minimum、maximum、
+ * exclusiveMinimum、exclusiveMaximum、multipleOf、anyOf、oneOf、allOf、not
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchemaDefine {
+    type?: JsonSchemaType | JsonSchemaType[];
+    enum?: any[];
+    const?: any;
+    properties?: { [key: string]: JsonSchemaDefine };
+    required?: string[];
+    additionalProperties?: boolean | JsonSchemaDefine;
+    items?: JsonSchemaDefine;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+    anyOf?: JsonSchemaDefine[];
+    oneOf?: JsonSchemaDefine[];
+    allOf?: JsonSchemaDefine[];
+    not?: JsonSchemaDefine;
+    [key: string]: any;//其它关键字（如title、description）将被忽略
+}
+
+export interface JsonSchemaError {
+    path: string;//出错字段的路径，如：$.user.name、$.list[0]
+    message: string;//错误描述
+}
+
+export class JsonSchema {
+    private _define: JsonSchemaDefine;//schema定义
+    private _patterns: { [key: string]: RegExp };//已编译的正则表达式缓存
+    /**
+     * @param define schema定义
+     */
+    public constructor(define: JsonSchemaDefine) {
+        this._define = define;
+        this._patterns = {};
+    }
+    /**
+     * 校验数据
+     * @param data 要校验的数据
+     * @returns 错误列表，校验通过时返回空数组
+     */
+    public validate(data: any): JsonSchemaError[] {
+        const errors: JsonSchemaError[] = [];
+        this.check(this._define, data, '$', errors);
+        return errors;
+    }
+    /**
+     * 校验数据
+     * @param data 要校验的数据
+     */
+    public isValid(data: any): boolean {
+        return this.validate(data).length === 0;
+    }
+    public get define() { return this._define; }
+    private check(define: JsonSchemaDefine, data: any, path: string, errors: JsonSchemaError[]) {
+        if (define.type !== undefined) {
+            const types = Array.isArray(define.type) ? define.type : [define.type];
+            if (!types.some((type) => JsonSchema.isType(type, data))) {
+                errors.push({ path: path, message: 'should be ' + types.join(' or ') });
+                return;//类型不匹配时不再校验其它关键字
+            }
+        }
+        if (define.enum !== undefined && !define.enum.some((item) => JsonSchema.isEqual(item, data))) {
+            errors.push({ path: path, message: 'should be one of ' + JSON.stringify(define.enum) });
+        }
+        if (define.const !== undefined && !JsonSchema.isEqual(define.const, data)) {
+            errors.push({ path: path, message: 'should be equal to ' + JSON.stringify(define.const) });
+        }
+        if (typeof data === 'string') {
+            if (define.minLength !== undefined && data.length < define.minLength) errors.push({ path: path, message: 'should not be shorter than ' + define.minLength + ' characters' });
+            if (define.maxLength !== undefined && data.length > define.maxLength) errors.push({ path: path, message: 'should not be longer than ' + define.maxLength + ' characters' });
+            if (define.pattern !== undefined && !this.getPattern(define.pattern).test(data)) errors.push({ path: path, message: 'should match pattern ' + define.pattern });
+        }
+        if (typeof data === 'number') {
+            if (define.minimum !== undefined && data < define.minimum) errors.push({ path: path, message: 'should be >= ' + define.minimum });
+            if (define.maximum !== undefined && data > define.maximum) errors.push({ path: path, message: 'should be <= ' + define.maximum });
+            if (define.exclusiveMinimum !== undefined && data <= define.exclusiveMinimum) errors.push({ path: path, message: 'should be > ' + define.exclusiveMinimum });
+            if (define.exclusiveMaximum !== undefined && data >= define.exclusiveMaximum) errors.push({ path: path, message: 'should be < ' + define.exclusiveMaximum });
+            if (define.multipleOf !== undefined && !Number.isInteger(data / define.multipleOf)) errors.push({ path: path, message: 'should be multiple of ' + define.multipleOf });
+        }
+        if (Array.isArray(data)) {
+            if (define.minItems !== undefined && data.length < define.minItems) errors.push({ path: path, message: 'should not have fewer than ' + define.minItems + ' items' });
+            if (define.maxItems !== undefined && data.length > define.maxItems) errors.push({ path: path, message: 'should not have more than ' + define.maxItems + ' items' });
+            if (define.uniqueItems) {
+                for (let i = 1; i < data.length; i++) {
+                    if (data.slice(0, i).some((item) => JsonSchema.isEqual(item, data[i]))) {
+                        errors.push({ path: path, message: 'should not have duplicate items' });
+                        break;
+                    }
+                }
+            }
+            if (define.items) {
+                for (let i = 0; i < data.length; i++) {
+                    this.check(define.items, data[i], path + '[' + i + ']', errors);
+                }
+            }
+        } else if (JsonSchema.isType('object', data)) {
+            if (define.required) {
+                for (let i = 0; i < define.required.length; i++) {
+                    if (data[define.required[i]] === undefined) errors.push({ path: path + '.' + define.required[i], message: 'is required' });
+                }
+            }
+            for (let key in data) {
+                if (data[key] === undefined) continue;
+                if (define.properties && define.properties[key]) {
+                    this.check(define.properties[key], data[key], path + '.' + key, errors);
+                } else if (define.additionalProperties === false) {
+                    errors.push({ path: path + '.' + key, message: 'is not allowed' });
+                } else if (define.additionalProperties && typeof define.additionalProperties === 'object') {
+                    this.check(define.additionalProperties, data[key], path + '.' + key, errors);
+                }
+            }
+        }
+        if (define.allOf) {
+            for (let i = 0; i < define.allOf.length; i++) {
+                this.check(define.allOf[i], data, path, errors);
+            }
+        }
+        if (define.anyOf && !define.anyOf.some((item) => this.isMatch(item, data, path))) {
+            errors.push({ path: path, message: 'should match some schema in anyOf' });
+        }
+        if (define.oneOf && define.oneOf.filter((item) => this.isMatch(item, data, path)).length !== 1) {
+            errors.push({ path: path, message: 'should match exactly one schema in oneOf' });
+        }
+        if (define.not && this.isMatch(define.not, data, path)) {
+            errors.push({ path: path, message: 'should not match schema in not' });
+        }
+    }
+    private isMatch(define: JsonSchemaDefine, data: any, path: string): boolean {
+        const errors: JsonSchemaError[] = [];
+        this.check(define, data, path, errors);
+        return errors.length === 0;
+    }
+    private getPattern(pattern: string): RegExp {
+        if (!this._patterns[pattern]) this._patterns[pattern] = new RegExp(pattern);
+        return this._patterns[pattern];
+    }
+    /**
+     * 判断数据是否为指定的类型
+     * @param type
+     * @param data
+     */
+    public static isType(type: JsonSchemaType, data: any): boolean {
+        switch (type) {
+            case 'string': return typeof data === 'string';
+            case 'number': return typeof data === 'number' && isFinite(data);
+            case 'integer': return typeof data === 'number' && Number.isInteger(data);
+            case 'boolean': return typeof data === 'boolean';
+            case 'object': return typeof data === 'object' && data !== null && !Array.isArray(data);
+            case 'array': return Array.isArray(data);
+            case 'null': return data === null;
+            default: return false;
+        }
+    }
+    /**
+     * 判断两个JSON数据是否相等
+     * @param a
+     * @param b
+     */
+    public static isEqual(a: any, b: any): boolean {
+        if (a === b) return true;
+        if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+        if (Array.isArray(a) !== Array.isArray(b)) return false;
+        const keysA = Object.keys(a);
+        const keysB = Object.keys(b);
+        if (keysA.length !== keysB.length) return false;
+        return keysA.every((key) => JsonSchema.isEqual(a[key], b[key]));
+    }
+}
\ No newline at end of file
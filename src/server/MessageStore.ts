@@ -0,0 +1,198 @@
+/**
+ * 聊天消息的持久化存储，保存私聊与推送组消息、每个会话的已读位置
+ * 每个会话（cid）内的消息由服务端分配从1开始连续递增的序号（seq），客户端以seq作为分页游标和已读位置
+ * 存储操作失败时必须抛出异常（返回rejected的Promise），WssServer据此返回null
+ */
+import type { MongoMan } from './MongoMan';
+
+export type ChatMessageType = 'private' | 'channel';
+
+export interface ChatMessage {
+    cid: string;//会话id，参考WssServer.privateCid与WssServer.channelCid
+    seq: number;//会话内的消息序号，由存储分配
+    type: ChatMessageType;//消息类型
+    from: string;//发送者uid
+    to: string;//私聊时为接收者uid，推送组消息时为推送组gid
+    content: any;//消息内容
+    time: number;//发送时间
+    editTime: number;//最近编辑时间，未编辑时为0
+    recalled: boolean;//是否已撤回，撤回后content为null
+}
+
+export interface ChatReceipt {
+    cid: string;//会话id
+    uid: string;//已读者uid
+    seq: number;//已读到的消息序号
+    time: number;//最近更新时间
+}
+
+export interface MessageStore {
+    /**
+     * 分配序号并保存消息，保存失败时不得占用序号
+     * @returns 分配了seq的消息
+     */
+    save(message: ChatMessage): Promise<ChatMessage>;
+    /**
+     * 返回一条消息，不存在时返回null
+     */
+    get(cid: string, seq: number): Promise<ChatMessage>;
+    /**
+     * 更新一条消息的内容、编辑时间或撤回状态，消息不存在时返回null
+     */
+    update(cid: string, seq: number, fields: { content?: any; editTime?: number; recalled?: boolean }): Promise<ChatMessage>;
+    /**
+     * 按照seq顺序返回一页消息
+     * @param before 只返回seq小于该值的消息中最新的limit条，为0时不限制
+     * @param after 只返回seq大于该值的消息中最早的limit条，为0时不限制，before与after都为0时返回最新的limit条
+     */
+    history(cid: string, before: number, after: number, limit: number): Promise<ChatMessage[]>;
+    /**
+     * 更新已读位置，seq小于已保存的已读位置时不更新
+     * @returns 更新后的已读位置
+     */
+    setRead(cid: string, uid: string, seq: number): Promise<ChatReceipt>;
+    /**
+     * 返回已读位置，从未读过时返回null
+     */
+    getRead(cid: string, uid: string): Promise<ChatReceipt>;
+    /**
+     * 返回seq之后其他人发送的未撤回的消息数量
+     */
+    countUnread(cid: string, uid: string, seq: number): Promise<number>;
+}
+
+export class MemoryMessageStore implements MessageStore {
+    private _messages: { [key: string]: ChatMessage[] };//每个会话的消息列表，下标为seq - 1
+    private _receipts: { [key: string]: ChatReceipt };//已读位置集合，key为cid与uid的组合
+    /**
+     * 单进程内的消息存储，进程重启后消息将丢失
+     */
+    public constructor() {
+        this._messages = {};
+        this._receipts = {};
+    }
+    public async save(message: ChatMessage): Promise<ChatMessage> {
+        const list = this._messages[message.cid] || [];
+        const item = Object.assign({}, message, { seq: list.length + 1 });
+        list.push(item);
+        this._messages[message.cid] = list;
+        return Object.assign({}, item);
+    }
+    public async get(cid: string, seq: number): Promise<ChatMessage> {
+        const list = this._messages[cid];
+        return list && list[seq - 1] ? Object.assign({}, list[seq - 1]) : null;
+    }
+    public async update(cid: string, seq: number, fields: { content?: any; editTime?: number; recalled?: boolean }): Promise<ChatMessage> {
+        const list = this._messages[cid];
+        if (!list || !list[seq - 1]) return null;
+        Object.assign(list[seq - 1], fields);
+        return Object.assign({}, list[seq - 1]);
+    }
+    public async history(cid: string, before: number, after: number, limit: number): Promise<ChatMessage[]> {
+        const list = this._messages[cid] || [];
+        const start = after > 0 ? after : 0;
+        const end = before > 0 ? Math.min(before - 1, list.length) : list.length;
+        if (start >= end) return [];
+        const result = after > 0 ? list.slice(start, Math.min(start + limit, end)) : list.slice(Math.max(start, end - limit), end);
+        return result.map((item) => Object.assign({}, item));
+    }
+    public async setRead(cid: string, uid: string, seq: number): Promise<ChatReceipt> {
+        const key = cid + ':' + uid;
+        const old = this._receipts[key];
+        if (!old || old.seq < seq) this._receipts[key] = { cid: cid, uid: uid, seq: seq, time: Date.now() };
+        return Object.assign({}, this._receipts[key]);
+    }
+    public async getRead(cid: string, uid: string): Promise<ChatReceipt> {
+        const receipt = this._receipts[cid + ':' + uid];
+        return receipt ? Object.assign({}, receipt) : null;
+    }
+    public async countUnread(cid: string, uid: string, seq: number): Promise<number> {
+        const list = this._messages[cid] || [];
+        let count = 0;
+        for (let i = Math.max(seq, 0); i < list.length; i++) {
+            if (list[i].from !== uid && !list[i].recalled) count++;
+        }
+        return count;
+    }
+}
+
+export class MongoMessageStore implements MessageStore {
+    private static readonly SAVE_RETRIES = 10;//并发保存同一个会话的消息导致序号冲突时的最大尝试次数
+    private _mongo: MongoMan;//数据库实例
+    private _table: string;//保存消息的集合名称
+    private _readTable: string;//保存已读位置的集合名称
+    /**
+     * 使用MongoMan保存消息，适用于多进程、多主机部署的集群
+     * @param mongo 已经连接的MongoMan实例
+     * @param table 保存消息的集合名称
+     * @param readTable 保存已读位置的集合名称
+     */
+    public constructor(mongo: MongoMan, table: string = 'chat_messages', readTable: string = 'chat_receipts') {
+        this._mongo = mongo;
+        this._table = table;
+        this._readTable = readTable;
+    }
+    /**
+     * 创建查询所需的索引
+     */
+    public async createIndexes(): Promise<void> {
+        await this._mongo.collection(this._table).createIndex({ cid: 1, seq: 1 }, { unique: true });
+        await this._mongo.collection(this._readTable).createIndex({ uid: 1 });
+    }
+    /**
+     * 以会话中最大的seq加1作为新消息的序号直接插入，_id冲突（并发保存占用了该序号）时重新读取，插入成功后序号才生效
+     */
+    public async save(message: ChatMessage): Promise<ChatMessage> {
+        for (let i = 0; i < MongoMessageStore.SAVE_RETRIES; i++) {
+            const lasts = await this._mongo.findMany<MessageDoc, MessageDoc>(this._table, { cid: message.cid }, null, { sort: { seq: -1 }, limit: 1, projection: { seq: 1 } });
+            if (!lasts) throw Error('chat message find failed');
+            const item = Object.assign({}, message, { seq: lasts.length > 0 ? lasts[0].seq + 1 : 1 });
+            if (await this._mongo.insertOne<MessageDoc>(this._table, Object.assign({ _id: item.cid + ':' + item.seq }, item)) > 0) return item;
+        }
+        throw Error('chat message insert failed');
+    }
+    public async get(cid: string, seq: number): Promise<ChatMessage> {
+        const doc = await this._mongo.findOne<MessageDoc>(this._table, { _id: cid + ':' + seq });
+        return doc ? this.toMessage(doc) : null;
+    }
+    public async update(cid: string, seq: number, fields: { content?: any; editTime?: number; recalled?: boolean }): Promise<ChatMessage> {
+        const doc = await this._mongo.findOneAndUpdate<MessageDoc>(this._table, { _id: cid + ':' + seq }, { $set: fields }, { returnOriginal: false });
+        return doc ? this.toMessage(doc) : null;
+    }
+    public async history(cid: string, before: number, after: number, limit: number): Promise<ChatMessage[]> {
+        const range: { [key: string]: number } = {};
+        if (before > 0) range.$lt = before;
+        if (after > 0) range.$gt = after;
+        const query: { [key: string]: any } = { cid: cid };
+        if (before > 0 || after > 0) query.seq = range;
+        const docs = await this._mongo.findMany<MessageDoc, MessageDoc>(this._table, query, null, { sort: { seq: after > 0 ? 1 : -1 }, limit: limit });
+        if (!docs) throw Error('chat message find failed');
+        const result = docs.map((doc) => this.toMessage(doc));
+        return after > 0 ? result : result.reverse();
+    }
+    public async setRead(cid: string, uid: string, seq: number): Promise<ChatReceipt> {
+        const doc = await this._mongo.findOneAndUpdate<ReceiptDoc>(this._readTable, { _id: cid + ':' + uid }, { $max: { seq: seq }, $set: { cid: cid, uid: uid, time: Date.now() } }, { upsert: true, returnOriginal: false });
+        if (!doc) throw Error('chat receipt update failed');//upsert时失败才会返回null
+        return { cid: doc.cid, uid: doc.uid, seq: doc.seq, time: doc.time };
+    }
+    public async getRead(cid: string, uid: string): Promise<ChatReceipt> {
+        const doc = await this._mongo.findOne<ReceiptDoc>(this._readTable, { _id: cid + ':' + uid });
+        return doc ? { cid: doc.cid, uid: doc.uid, seq: doc.seq, time: doc.time } : null;
+    }
+    public async countUnread(cid: string, uid: string, seq: number): Promise<number> {
+        const count = await this._mongo.countDocuments<MessageDoc>(this._table, { cid: cid, seq: { $gt: seq }, from: { $ne: uid }, recalled: false });
+        if (count < 0) throw Error('chat message count failed');
+        return count;
+    }
+    private toMessage(doc: MessageDoc): ChatMessage {
+        return { cid: doc.cid, seq: doc.seq, type: doc.type, from: doc.from, to: doc.to, content: doc.content, time: doc.time, editTime: doc.editTime, recalled: doc.recalled };
+    }
+}
+
+interface MessageDoc extends ChatMessage {
+    _id: string;
+}
+
+interface ReceiptDoc extends ChatReceipt {
+    _id: string;
+}
\ No newline at end of file
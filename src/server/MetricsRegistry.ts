@@ -0,0 +1,186 @@
+/**
+ * 运行指标的注册表，以Prometheus文本格式输出
+ * Prometheus文本格式相关信息：https://prometheus.io/docs/instrumenting/exposition_formats/
+ * 支持的指标类型：counter（只增的计数）、gauge（可增可减的数值）、histogram（分布统计，如耗时）
+ */
+export type MetricsType = 'counter' | 'gauge' | 'histogram';
+
+export interface MetricsLabels { [key: string]: string | number; }
+
+export interface MetricsSample { labels?: MetricsLabels; value: number; }
+
+/**
+ * 采集器在每次输出时执行，用于读取当前的状态（如：连接数量），返回的样本将替换该指标的全部样本
+ */
+export interface MetricsCollector { (): number | MetricsSample[]; }
+
+export class MetricsRegistry {
+    private _prefix: string;//全部指标名称的前缀
+    private _families: { [key: string]: MetricsFamily };//已注册的指标集合，key为不含前缀的名称
+    /**
+     * @param prefix 全部指标名称的前缀，如：imsdk_
+     */
+    public constructor(prefix: string = '') {
+        this._prefix = prefix;
+        this._families = {};
+    }
+    /**
+     * 注册counter指标，已注册时直接返回
+     * @param name
+     * @param help 指标描述
+     */
+    public counter(name: string, help: string) {
+        this.register(name, help, 'counter', null);
+    }
+    /**
+     * 注册gauge指标，已注册时只更新采集器
+     * @param name
+     * @param help 指标描述
+     * @param collector 采集器，不传则通过set设置数值
+     */
+    public gauge(name: string, help: string, collector?: MetricsCollector) {
+        const family = this.register(name, help, 'gauge', null);
+        if (collector) family.collector = collector;
+    }
+    /**
+     * 注册histogram指标，已注册时直接返回
+     * @param name
+     * @param help 指标描述
+     * @param buckets 桶的上限，升序排列，默认适用于以秒为单位的耗时
+     */
+    public histogram(name: string, help: string, buckets: number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]) {
+        this.register(name, help, 'histogram', buckets);
+    }
+    /**
+     * 增加counter或gauge指标的数值
+     * @param name
+     * @param labels
+     * @param value
+     */
+    public inc(name: string, labels?: MetricsLabels, value: number = 1) {
+        const series = this.series(name, labels, 'inc');
+        if (series) series.value += value;
+    }
+    /**
+     * 设置gauge指标的数值
+     * @param name
+     * @param labels
+     * @param value
+     */
+    public set(name: string, labels: MetricsLabels, value: number) {
+        const series = this.series(name, labels, 'set');
+        if (series) series.value = value;
+    }
+    /**
+     * 记录histogram指标的一次观测值
+     * @param name
+     * @param labels
+     * @param value
+     */
+    public observe(name: string, labels: MetricsLabels, value: number) {
+        const series = this.series(name, labels, 'observe');
+        if (!series) return;
+        const buckets = this._families[name].buckets;
+        for (let i = 0; i < buckets.length; i++) {
+            if (value <= buckets[i]) series.counts[i]++;
+        }
+        series.value += value;
+        series.count++;
+    }
+    /**
+     * 清除全部指标的数值，注册信息与采集器保留
+     */
+    public reset() {
+        for (let name in this._families) {
+            this._families[name].series = {};
+        }
+    }
+    /**
+     * 以Prometheus文本格式输出全部指标
+     */
+    public metrics(): string {
+        const lines: string[] = [];
+        for (let name in this._families) {
+            const family = this._families[name];
+            const fullname = this._prefix + name;
+            if (family.collector) {
+                try {
+                    const result = family.collector();
+                    family.series = {};
+                    const samples = typeof result === 'number' ? [{ value: result }] : result;
+                    for (let i = 0; i < samples.length; i++) {
+                        this.series(name, samples[i].labels, 'set').value = samples[i].value;
+                    }
+                } catch (e) {
+                    continue;//采集失败时不输出该指标
+                }
+            }
+            lines.push('# HELP ' + fullname + ' ' + family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n'));
+            lines.push('# TYPE ' + fullname + ' ' + family.type);
+            for (let key in family.series) {
+                const series = family.series[key];
+                if (family.type === 'histogram') {
+                    for (let i = 0; i < family.buckets.length; i++) {
+                        lines.push(fullname + '_bucket' + this.format(series.labels, String(family.buckets[i])) + ' ' + series.counts[i]);
+                    }
+                    lines.push(fullname + '_bucket' + this.format(series.labels, '+Inf') + ' ' + series.count);
+                    lines.push(fullname + '_sum' + this.format(series.labels) + ' ' + series.value);
+                    lines.push(fullname + '_count' + this.format(series.labels) + ' ' + series.count);
+                } else {
+                    lines.push(fullname + this.format(series.labels) + ' ' + series.value);
+                }
+            }
+        }
+        return lines.join('\n') + '\n';
+    }
+    /**
+     * Prometheus文本格式的Content-Type
+     */
+    public get contentType() { return 'text/plain; version=0.0.4; charset=utf-8'; }
+    private register(name: string, help: string, type: MetricsType, buckets: number[]): MetricsFamily {
+        const family = this._families[name];
+        if (family) {
+            if (family.type !== type) throw Error('metrics ' + name + ' was registered as ' + family.type);
+            return family;
+        }
+        this._families[name] = { help: help, type: type, buckets: buckets, series: {}, collector: null };
+        return this._families[name];
+    }
+    private series(name: string, labels: MetricsLabels, action: 'inc' | 'set' | 'observe'): MetricsSeries {
+        const family = this._families[name];
+        if (!family) return null;//未注册的指标直接忽略
+        if (action === 'observe' && family.type !== 'histogram') return null;
+        if (action !== 'observe' && family.type === 'histogram') return null;
+        if (action === 'set' && family.type === 'counter') return null;
+        const key = labels ? JSON.stringify(Object.keys(labels).sort().map((label) => [label, String(labels[label])])) : '';
+        let series = family.series[key];
+        if (!series) {
+            series = { labels: labels || null, value: 0, count: 0, counts: family.buckets ? family.buckets.map(() => 0) : null };
+            family.series[key] = series;
+        }
+        return series;
+    }
+    private format(labels: MetricsLabels, le?: string): string {
+        const items: string[] = [];
+        for (let label in labels) {
+            items.push(label + '="' + String(labels[label]).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"') + '"');
+        }
+        if (le !== undefined) items.push('le="' + le + '"');
+        return items.length > 0 ? '{' + items.join(',') + '}' : '';
+    }
+}
+
+interface MetricsFamily {
+    help: string;//指标描述
+    type: MetricsType;//指标类型
+    buckets: number[];//histogram的桶上限
+    series: { [key: string]: MetricsSeries };//每组标签的数值，key为标签的序列化字符串
+    collector: MetricsCollector;//采集器
+}
+
+interface MetricsSeries {
+    labels: MetricsLabels;//标签
+    value: number;//counter与gauge的数值，histogram的观测值总和
+    count: number;//histogram的观测次数
+    counts: number[];//histogram每个桶的累计观测次数
+}
\ No newline at end of file
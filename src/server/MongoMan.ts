@@ -27,6 +27,7 @@ import type {
 } from 'mongodb';
 import type { Logger } from 'log4js';
 import type { EnvContext } from './EnvContext';
+import type { MetricsRegistry } from './MetricsRegistry';
 
 export interface MongoManConfig {
     url?: string;//MongoClient地址
@@ -41,6 +42,7 @@ export class MongoMan {
     private _logger: Logger;//log4js实例
     private _client: MongoClient;//客户端实例
     private _db: Db;//数据库实例
+    private _metrics: MetricsRegistry;//运行指标的注册表，null时不统计指标
     /**
      * @param context 上下文包装类实例
      * @param category 日志分类
@@ -54,6 +56,16 @@ export class MongoMan {
         //mongo相关引用
         this._client = null;//客户端实例
         this._db = null;//数据库实例
+        this._metrics = null;//运行指标的注册表
+    }
+    /**
+     * 设置运行指标的注册表，并注册本类统计的指标：每种操作的耗时与失败次数
+     * @param metrics 
+     */
+    public setMetrics(metrics: MetricsRegistry) {
+        this._metrics = metrics;
+        this._metrics.histogram('mongo_operation_duration_seconds', 'MongoDB operation duration by operation and collection.');
+        this._metrics.counter('mongo_operation_errors_total', 'Failed MongoDB operations by operation and collection.');
     }
     /**
      * 建立数据库连接
@@ -93,12 +105,15 @@ export class MongoMan {
      * @returns 当返回值<0：操作失败。当返回值>=0：操作成功的数量
      */
     public async insertOne<T>(table: string, doc: T, insertOptions?: CollectionInsertOneOptions, tableOptions?: DbCollectionOptions): Promise<number> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).insertOne(doc, insertOptions);
             this._logger.debug(this._config.url, this._config.db, 'insertOne', ...arguments, result.insertedCount);
+            this.observe('insertOne', table, start, false);
             return result.insertedCount;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'insertOne', ...arguments, e);
+            this.observe('insertOne', table, start, true);
             return -1;
         }
     }
@@ -111,12 +126,15 @@ export class MongoMan {
      * @returns 当返回值<0：操作失败。当返回值>=0：操作成功的数量
      */
     public async insertMany<T>(table: string, docs: T[], insertOptions?: CollectionInsertManyOptions, tableOptions?: DbCollectionOptions): Promise<number> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).insertMany(docs, insertOptions);
             this._logger.debug(this._config.url, this._config.db, 'insertMany', ...arguments, result.insertedCount);
+            this.observe('insertMany', table, start, false);
             return result.insertedCount;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'insertMany', ...arguments, e);
+            this.observe('insertMany', table, start, true);
             return -1;
         }
     }
@@ -129,12 +147,15 @@ export class MongoMan {
      * @returns 当返回值为null：操作失败。
      */
     public async findOne<T>(table: string, query: FilterQuery<T>, findOptions?: FindOneOptions<any>, tableOptions?: DbCollectionOptions): Promise<T> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).findOne(query, findOptions);
             this._logger.debug(this._config.url, this._config.db, 'findOne', ...arguments, result);
+            this.observe('findOne', table, start, false);
             return result;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'findOne', ...arguments, e);
+            this.observe('findOne', table, start, true);
             return null;
         }
     }
@@ -148,6 +169,7 @@ export class MongoMan {
      * @returns 当返回值为null：操作失败。
      */
     public async findMany<T, Z>(table: string, query: FilterQuery<T>, join?: FindJoinOpions<Z>, findOptions?: FindOneOptions<any>, tableOptions?: DbCollectionOptions): Promise<T[]> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).find(query, findOptions).toArray();
             if (result.length > 0 && join) {
@@ -192,9 +214,11 @@ export class MongoMan {
                 }
             }
             this._logger.debug(this._config.url, this._config.db, 'findMany', ...arguments, result);
+            this.observe('findMany', table, start, false);
             return result;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'findMany', ...arguments, e);
+            this.observe('findMany', table, start, true);
             return null;
         }
     }
@@ -208,12 +232,15 @@ export class MongoMan {
      * @returns 当返回值<0：操作失败。当返回值>=0：操作成功的数量
      */
     public async updateOne<T>(table: string, filter: FilterQuery<T>, update: UpdateQuery<T>, updateOptions?: UpdateOneOptions, tableOptions?: DbCollectionOptions): Promise<number> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).updateOne(filter, update, updateOptions);
             this._logger.debug(this._config.url, this._config.db, 'updateOne', ...arguments, result.modifiedCount, result.matchedCount, result.upsertedCount);
+            this.observe('updateOne', table, start, false);
             return result.modifiedCount || result.matchedCount || result.upsertedCount;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'updateOne', ...arguments, e);
+            this.observe('updateOne', table, start, true);
             return -1;
         }
     }
@@ -227,12 +254,15 @@ export class MongoMan {
      * @returns 当返回值<0：操作失败。当返回值>=0：操作成功的数量
      */
     public async updateMany<T>(table: string, filter: FilterQuery<T>, update: UpdateQuery<T>, updateOptions?: UpdateManyOptions, tableOptions?: DbCollectionOptions): Promise<number> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).updateMany(filter, update, updateOptions);
             this._logger.debug(this._config.url, this._config.db, 'updateMany', ...arguments, result.modifiedCount, result.matchedCount, result.upsertedCount);
+            this.observe('updateMany', table, start, false);
             return result.modifiedCount || result.matchedCount || result.upsertedCount;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'updateMany', ...arguments, e);
+            this.observe('updateMany', table, start, true);
             return -1;
         }
     }
@@ -245,12 +275,15 @@ export class MongoMan {
      * @returns 当返回值<0：操作失败。当返回值>=0：操作成功的数量
      */
     public async deleteOne<T>(table: string, filter: FilterQuery<T>, deleteOptions?: CommonOptions, tableOptions?: DbCollectionOptions): Promise<number> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).deleteOne(filter, deleteOptions);
             this._logger.debug(this._config.url, this._config.db, 'deleteOne', ...arguments, result.deletedCount);
+            this.observe('deleteOne', table, start, false);
             return result.deletedCount;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'deleteOne', ...arguments, e);
+            this.observe('deleteOne', table, start, true);
             return -1;
         }
     }
@@ -263,12 +296,15 @@ export class MongoMan {
      * @returns 当返回值<0：操作失败。当返回值>=0：操作成功的数量
      */
     public async deleteMany<T>(table: string, filter: FilterQuery<T>, deleteOptions?: CommonOptions, tableOptions?: DbCollectionOptions): Promise<number> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).deleteMany(filter, deleteOptions);
             this._logger.debug(this._config.url, this._config.db, 'deleteMany', ...arguments, result.deletedCount);
+            this.observe('deleteMany', table, start, false);
             return result.deletedCount;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'deleteMany', ...arguments, e);
+            this.observe('deleteMany', table, start, true);
             return -1;
         }
     }
@@ -281,12 +317,15 @@ export class MongoMan {
      * @returns 当返回值<0：操作失败。当返回值>=0：操作成功的数量
      */
     public async countDocuments<T>(table: string, query?: FilterQuery<T>, countOptions?: MongoCountPreferences, tableOptions?: DbCollectionOptions): Promise<number> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).countDocuments(query, countOptions);
             this._logger.debug(this._config.url, this._config.db, 'countDocuments', ...arguments, result);
+            this.observe('countDocuments', table, start, false);
             return result;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'countDocuments', ...arguments, e);
+            this.observe('countDocuments', table, start, true);
             return -1;
         }
     }
@@ -300,12 +339,15 @@ export class MongoMan {
      * @returns 当返回值为null：操作失败。
      */
     public async findOneAndUpdate<T>(table: string, filter: FilterQuery<T>, update: UpdateQuery<T>, findUpdateOptions?: FindOneAndUpdateOption<T>, tableOptions?: DbCollectionOptions): Promise<T> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).findOneAndUpdate(filter, update, findUpdateOptions);
             this._logger.debug(this._config.url, this._config.db, 'findOneAndUpdate', ...arguments, result.value);
+            this.observe('findOneAndUpdate', table, start, false);
             return result.value;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'findOneAndUpdate', ...arguments, e);
+            this.observe('findOneAndUpdate', table, start, true);
             return null;
         }
     }
@@ -318,12 +360,15 @@ export class MongoMan {
      * @returns 当返回值为null：操作失败。
      */
     public async findOneAndDelete<T>(table: string, filter: FilterQuery<T>, findDeleteOptions?: FindOneAndDeleteOption<T>, tableOptions?: DbCollectionOptions): Promise<T> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).findOneAndDelete(filter, findDeleteOptions);
             this._logger.debug(this._config.url, this._config.db, 'findOneAndDelete', ...arguments, result.value);
+            this.observe('findOneAndDelete', table, start, false);
             return result.value;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'findOneAndDelete', ...arguments, e);
+            this.observe('findOneAndDelete', table, start, true);
             return null;
         }
     }
@@ -336,12 +381,15 @@ export class MongoMan {
      * @returns 当返回值为null：操作失败。
      */
     public async aggregate<T>(table: string, aggregatePipeline?: object[], aggregateOptions?: CollectionAggregationOptions, tableOptions?: DbCollectionOptions): Promise<T[]> {
+        const start = Date.now();
         try {
             const result = await this._db.collection(table, tableOptions).aggregate(aggregatePipeline, aggregateOptions).toArray();
             this._logger.debug(this._config.url, this._config.db, 'aggregate', ...arguments, result);
+            this.observe('aggregate', table, start, false);
             return result;
         } catch (e) {
             this._logger.error(this._config.url, this._config.db, 'aggregate', ...arguments, e);
+            this.observe('aggregate', table, start, true);
             return null;
         }
     }
@@ -423,6 +471,18 @@ export class MongoMan {
             return ObjectId.createFromHexString('000000000000000000000000');
         }
     }
+    /**
+     * 记录操作耗时与失败次数
+     * @param operation 
+     * @param table 
+     * @param start 操作开始的时间
+     * @param error 是否失败
+     */
+    private observe(operation: string, table: string, start: number, error: boolean) {
+        if (!this._metrics) return;
+        this._metrics.observe('mongo_operation_duration_seconds', { operation: operation, collection: table }, (Date.now() - start) / 1000);
+        if (error) this._metrics.inc('mongo_operation_errors_total', { operation: operation, collection: table });
+    }
     public get context(): EnvContext { return this._context; }
     public get client(): MongoClient { return this._client; };
     public get db(): Db { return this._db; };
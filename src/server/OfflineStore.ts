@@ -0,0 +1,117 @@
+/**
+ * 可靠推送的消息存储，保存未确认送达的消息（包括离线消息）
+ * WssServer.pushSession的reliable参数为true时先保存消息再推送，客户端确认送达后删除，uid再次bindUid时重发未确认的消息
+ * 存储操作失败时必须抛出异常（返回rejected的Promise），WssServer据此记录错误并退化为普通推送
+ */
+import type { MongoMan } from './MongoMan';
+import type { WssDeviceFilter } from './WssServer';
+
+export interface OfflineMessage {
+    uid: string;//接收者
+    msgId: string;//消息id
+    route: string;//推送的路由
+    message: any;//推送的数据
+    time: number;//推送时间
+    expire: number;//过期时间
+    filter?: WssDeviceFilter;//只推送到匹配的设备，不传则推送到全部设备
+}
+
+export interface OfflineStore {
+    /**
+     * 保存一条消息，超出limit时删除该uid最早的消息
+     */
+    save(item: OfflineMessage, limit: number): Promise<void>;
+    /**
+     * 删除一条已确认送达的消息
+     */
+    remove(uid: string, msgId: string): Promise<void>;
+    /**
+     * 按推送时间顺序返回uid全部未过期的消息
+     */
+    list(uid: string): Promise<OfflineMessage[]>;
+}
+
+export class MemoryOfflineStore implements OfflineStore {
+    private _queues: { [key: string]: OfflineMessage[] };//每个uid的消息队列
+    /**
+     * 单进程内的消息存储，进程重启后消息将丢失
+     */
+    public constructor() {
+        this._queues = {};
+    }
+    public async save(item: OfflineMessage, limit: number): Promise<void> {
+        const queue = this._queues[item.uid] || [];
+        queue.push(item);
+        if (queue.length > limit) queue.splice(0, queue.length - limit);
+        this._queues[item.uid] = queue;
+    }
+    public async remove(uid: string, msgId: string): Promise<void> {
+        const queue = this._queues[uid];
+        if (!queue) return;
+        for (let i = 0; i < queue.length; i++) {
+            if (queue[i].msgId === msgId) {
+                queue.splice(i, 1);
+                break;
+            }
+        }
+        if (queue.length === 0) delete this._queues[uid];
+    }
+    public async list(uid: string): Promise<OfflineMessage[]> {
+        const queue = this._queues[uid];
+        if (!queue) return [];
+        const now = Date.now();
+        const result = queue.filter((item) => item.expire > now);
+        if (result.length > 0) {
+            this._queues[uid] = result;
+        } else {
+            delete this._queues[uid];
+        }
+        return result.slice();
+    }
+}
+
+export class MongoOfflineStore implements OfflineStore {
+    private _mongo: MongoMan;//数据库实例
+    private _table: string;//保存消息的集合名称
+    /**
+     * 使用MongoMan保存消息，适用于多进程、多主机部署的集群
+     * @param mongo 已经连接的MongoMan实例
+     * @param table 保存消息的集合名称
+     */
+    public constructor(mongo: MongoMan, table: string = 'offline_messages') {
+        this._mongo = mongo;
+        this._table = table;
+    }
+    /**
+     * 创建查询所需的索引，以及过期消息自动删除的TTL索引
+     */
+    public async createIndexes(): Promise<void> {
+        await this._mongo.collection(this._table).createIndex({ uid: 1, time: 1 });
+        await this._mongo.collection(this._table).createIndex({ expireAt: 1 }, { expireAfterSeconds: 0 });
+    }
+    public async save(item: OfflineMessage, limit: number): Promise<void> {
+        const inserted = await this._mongo.insertOne<OfflineDoc>(this._table, Object.assign({ _id: item.uid + ':' + item.msgId, expireAt: new Date(item.expire) }, item));
+        if (inserted < 0) throw Error('offline message insert failed');
+        const total = await this._mongo.countDocuments<OfflineDoc>(this._table, { uid: item.uid });
+        if (total < 0) throw Error('offline message count failed');
+        if (total > limit) {
+            const olds = await this._mongo.findMany<OfflineDoc, OfflineDoc>(this._table, { uid: item.uid }, null, { sort: { time: 1 }, limit: total - limit, projection: { _id: 1 } });
+            if (!olds) throw Error('offline message find failed');
+            if (olds.length > 0 && await this._mongo.deleteMany<OfflineDoc>(this._table, { _id: { $in: olds.map((doc) => doc._id) } }) < 0) throw Error('offline message delete failed');
+        }
+    }
+    public async remove(uid: string, msgId: string): Promise<void> {
+        const deleted = await this._mongo.deleteOne<OfflineDoc>(this._table, { _id: uid + ':' + msgId });
+        if (deleted < 0) throw Error('offline message delete failed');
+    }
+    public async list(uid: string): Promise<OfflineMessage[]> {
+        const docs = await this._mongo.findMany<OfflineDoc, OfflineDoc>(this._table, { uid: uid, expire: { $gt: Date.now() } }, null, { sort: { time: 1 } });
+        if (!docs) throw Error('offline message find failed');
+        return docs.map((doc) => ({ uid: doc.uid, msgId: doc.msgId, route: doc.route, message: doc.message, time: doc.time, expire: doc.expire, filter: doc.filter }));
+    }
+}
+
+interface OfflineDoc extends OfflineMessage {
+    _id: string;
+    expireAt: Date;
+}
\ No newline at end of file
@@ -14,11 +14,16 @@ import cookieParser from 'cookie-parser';
 import bodyParser from 'body-parser';
 import multer from 'multer';
 import { v1 as uuid } from 'uuid';
+import crypto from 'crypto';
 import https from 'https';
 import http from 'http';
 import type { Logger } from 'log4js';
 import type { ServeStaticOptions } from 'serve-static';
+import { JsonSchema, JsonSchemaDefine } from './JsonSchema';
+import { WssBridgeResponse } from '../client/WssBridge';
+import { WebBridge } from '../client/WebBridge';
 import type { EnvContext } from './EnvContext';
+import type { MetricsRegistry } from './MetricsRegistry';
 
 export interface WebServerConfig {
     helmet?: { [key: string]: any };//helmet插件配置，null不启用该插件，参考依赖库 https://github.com/helmetjs/helmet
@@ -31,16 +36,60 @@ export interface WebServerConfig {
     uploadDir?: string;//上传文件的保存位置
     uploadMimeTypes?: { [key: string]: string };//允许上传的mimeType，默认为{'image/jpg': 'jpg', 'image/png': 'png', 'image/gif': 'gif', 'image/bmp': 'bmp'}
     webRootUrl?: string;//保存web访问请求的通用前缀，本类中用作读取，逻辑需自定义。
-    webSignPwd?: string;//保存web访问请求的签名密码，本类中用作读取，逻辑需自定义。
+    webSignPwd?: string;//web访问请求的签名密码，设置后setRouter注册的路由默认校验请求签名，与WebBridge的signPwd一致
+    webSignSkew?: number;//请求签名允许的最大时钟偏差 ms，超出时视为过期的请求
+}
+export type WebRouteMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'all';
+/**
+ * 路由处理函数，可以是async函数，返回值将以{ code: 200, data: 返回值 }响应请求方
+ * 返回WssBridgeResponse实例时将以其响应请求方；抛出WebServerError时以其code和data响应请求方；已通过resp自行响应时忽略返回值
+ */
+export interface WebRouteHandler<P = any, Q = any, B = any> { (req: express.Request<P, any, B, Q>, resp: express.Response): any; }
+/**
+ * 设置了webSignPwd时，body-parser解析的请求会保存请求数据原文到rawBody
+ */
+export interface WebRequest<P = any, Q = any, B = any> extends express.Request<P, any, B, Q> { rawBody?: string; }
+/**
+ * 异常映射函数，返回WssBridgeResponse实例时以其响应请求方，返回null时按照默认方式处理
+ */
+export interface WebErrorMapper { (error: any, req: express.Request): WssBridgeResponse; }
+export interface WebRouteOptions {
+    sign?: boolean;//是否校验请求签名，设置了webSignPwd时默认为true，在全部中间件之前校验，不通过时以状态码401响应
+    middlewares?: express.RequestHandler[];//该路由专属的express中间件，在校验与处理函数之前执行
+    schema?: {
+        params?: JsonSchemaDefine | JsonSchema;//req.params的校验规则
+        query?: JsonSchemaDefine | JsonSchema;//req.query的校验规则
+        body?: JsonSchemaDefine | JsonSchema;//req.body的校验规则
+    };//请求数据的校验规则，不通过时以状态码400响应错误列表，可与WssServer的路由共用同一套定义
+}
+
+export class WebServerError extends Error {
+    public code: number;//响应的状态码
+    public data: any;//响应的错误描述或数据
+    /**
+     * 在路由处理函数中抛出此异常，将以code和data响应请求方，code为200至599时同时作为HTTP状态码，否则HTTP状态码为200
+     * @param code 状态码
+     * @param data 错误描述或数据
+     */
+    public constructor(code: number, data: any) {
+        super(typeof data === 'string' ? data : 'WebServerError: ' + code);
+        this.name = 'WebServerError';
+        this.code = code;
+        this.data = data;
+    }
 }
 
 export class WebServer {
+    private static readonly ROUTES_KEY = '__webServerRoutes__';//控制器实例中保存路由信息的属性名称
     private _context: EnvContext;
     private _config: WebServerConfig;
     private _logger: Logger;
     private _webapp: express.Express;
     private _server: http.Server | https.Server;
     private _upload: multer.Multer;
+    private _errorMapper: WebErrorMapper;//路由处理函数抛出异常时的映射函数
+    private _signNonces: { [key: string]: number };//已收到的签名随机串，value为可清除的时间，用于拒绝重放的请求
+    private _signPurgeTime: number;//下一次清理签名随机串的时间
     /**
      * @param context 上下文包装类实例
      * @param category 日志分类 
@@ -59,7 +108,8 @@ export class WebServer {
             uploadDir: null,
             uploadMimeTypes: { 'image/jpg': 'jpg', 'image/png': 'png', 'image/gif': 'gif', 'image/bmp': 'bmp' },
             webRootUrl: '',
-            webSignPwd: null
+            webSignPwd: null,
+            webSignSkew: 5 * 60 * 1000
         };
         Object.assign(this._config, config);//拷贝配置信息
         //绑定log4js实例
@@ -69,6 +119,9 @@ export class WebServer {
         this._server = context.ssls ? https.createServer(context.readSSLKerCert(), this._webapp) : http.createServer(this._webapp);//创建HTTP/S服务器实例
         //其它属性
         this._upload = null;//文件上传处理实例
+        this._errorMapper = null;
+        this._signNonces = {};
+        this._signPurgeTime = 0;
     }
     /**
      * 加载比较常用的几个第三方模块
@@ -91,12 +144,12 @@ export class WebServer {
         }
         //启用cookie-parser插件，解析application/json
         if (this._config.bodyParserJson) {
-            this._webapp.use(bodyParser.json(this.ensureObject(this._config.bodyParserJson)));
+            this._webapp.use(bodyParser.json(this.keepRawBody(this.ensureObject(this._config.bodyParserJson))));
             this._logger.info('body-parser.json module was loaded');
         }
         //启用cookie-parser插件，解析application/x-www-form-urlencoded
         if (this._config.bodyParserForm) {
-            this._webapp.use(bodyParser.urlencoded(this.ensureObject(this._config.bodyParserForm)));
+            this._webapp.use(bodyParser.urlencoded(this.keepRawBody(this.ensureObject(this._config.bodyParserForm))));
             this._logger.info('body-parser.urlencoded module was loaded');
         }
     }
@@ -181,6 +234,125 @@ export class WebServer {
         });
         this._logger.info('inner-upload module was loaded');
     }
+    /**
+     * 创建校验请求数据的express中间件，校验不通过时以状态码400响应{ code: 400, data: { message, errors } }
+     * @param schema 校验规则，可与WssServer的路由共用同一套定义
+     * @param source 要校验的请求数据
+     */
+    public createValidator(schema: JsonSchemaDefine | JsonSchema, source: 'body' | 'query' | 'params' = 'body'): express.RequestHandler {
+        const validator = schema instanceof JsonSchema ? schema : new JsonSchema(schema);
+        return (req, resp, next) => {
+            const errors = validator.validate(req[source]);
+            if (errors.length > 0) {
+                this._logger.debug('validator:', req.originalUrl, source, errors);
+                this.sendResponse(resp, 400, { message: 'Bad Request', errors: errors });
+            } else {
+                next();
+            }
+        };
+    }
+    /**
+     * 设置路由处理函数，响应格式与WssBridgeResponse相同：{ code, data }
+     * @param method 请求方法
+     * @param url http(s)访问请求路径，支持express的路径参数，如：/user/:id
+     * @param handler 路由处理函数
+     * @param options 路由选项
+     */
+    public setRouter<P = any, Q = any, B = any>(method: WebRouteMethod, url: string, handler: WebRouteHandler<P, Q, B>, options: WebRouteOptions = {}) {
+        const handlers: express.RequestHandler[] = (options.middlewares || []).slice();
+        if (this._config.webSignPwd && options.sign !== false) handlers.unshift(this.createSignVerifier());
+        if (options.schema) {
+            if (options.schema.params) handlers.push(this.createValidator(options.schema.params, 'params'));
+            if (options.schema.query) handlers.push(this.createValidator(options.schema.query, 'query'));
+            if (options.schema.body) handlers.push(this.createValidator(options.schema.body, 'body'));
+        }
+        const routeHandler: WebRouteHandler = handler;//express传入的请求数据类型即为泛型指定的类型
+        handlers.push(async (req: WebRequest, resp: express.Response, next: express.NextFunction) => {
+            let result: WssBridgeResponse;
+            try {
+                const data = await routeHandler(req, resp);
+                if (resp.headersSent) return;//已经自行响应
+                result = data instanceof WssBridgeResponse ? data : new WssBridgeResponse(200, data === undefined ? null : data);
+            } catch (e) {
+                result = this.mapError(e, req);
+                if (resp.headersSent) return;
+            }
+            try {
+                this.sendResponse(resp, result.code, result.data);
+            } catch (e) {
+                this._logger.error('setRouter:', req.method, req.originalUrl, e);//如：返回值中存在循环引用
+                if (resp.headersSent) {
+                    next(e);
+                } else {
+                    this.sendResponse(resp, 500, 'Internal Server Error');
+                }
+            }
+        });
+        this._webapp[method](url, handlers);
+    }
+    /**
+     * 加载控制器实例中被WebServer.route装饰的全部方法，例如：
+     * class UserController {
+     *     @WebServer.route('get', '/:id')
+     *     async getUser(req: express.Request<{ id: string }>) { ... }
+     * }
+     * server.setController('/user', new UserController());
+     * @param prefix 控制器中全部路由的路径前缀
+     * @param controller 控制器实例，方法调用时this指向该实例
+     */
+    public setController(prefix: string, controller: object) {
+        const routes = (controller as ControllerRouteHolder)[WebServer.ROUTES_KEY];
+        if (!routes || routes.length === 0) throw Error('controller routes not found');
+        for (let i = 0; i < routes.length; i++) {
+            const route = routes[i];
+            const url = ('/' + prefix + '/' + route.url).replace(/\/+/g, '/').replace(/(.)\/$/, '$1');
+            this.setRouter(route.method, url, (req, resp) => route.handler.call(controller, req, resp), route.options);
+        }
+    }
+    /**
+     * 设置路由处理函数抛出异常时的映射函数，用于将第三方库的异常统一转换为响应，如：数据库唯一索引冲突转换为409
+     * @param mapper 
+     */
+    public setErrorMapper(mapper: WebErrorMapper) {
+        this._errorMapper = mapper;
+    }
+    /**
+     * 创建校验请求签名的express中间件，签名规则参考WebBridge.createSignature，校验不通过时以状态码401响应{ code: 401, data: 'Unauthorized' }
+     * 请求数据需要由loadBaseModules加载的body-parser解析（multipart请求的数据不参与签名）
+     * 注意：已使用的随机串只保存在本进程中，多进程部署时请求可能在webSignSkew内被重放到其它进程
+     */
+    public createSignVerifier(): express.RequestHandler {
+        if (!this._config.webSignPwd) {
+            throw Error('webSignPwd not specified');
+        }
+        return (req, resp, next) => {
+            const error = this.verifySignature(req);
+            if (error) {
+                this._logger.debug('verifier:', this._context.getIPV4(req), req.method, req.originalUrl, error);
+                this.sendResponse(resp, 401, 'Unauthorized');
+            } else {
+                next();
+            }
+        };
+    }
+    /**
+     * 加载运行指标模块，以Prometheus文本格式输出注册表中的全部指标
+     * 注意：指标中包含集群节点地址等内部信息，请通过auth限制访问或只在内网端口上加载此模块
+     * @param metrics 运行指标的注册表，可与WssServer、MongoMan共用同一个实例
+     * @param url http(s)访问请求路径
+     * @param auth 访问校验函数，返回false时以状态码403拒绝请求
+     */
+    public loadMetricsModule(metrics: MetricsRegistry, url: string = '/metrics', auth?: (req: express.Request) => boolean) {
+        this._webapp.get(url, (req, resp) => {
+            if (auth && !auth(req)) {
+                resp.status(403).end('Forbidden');
+                return;
+            }
+            resp.set('Content-Type', metrics.contentType);
+            resp.end(metrics.metrics());
+        });
+        this._logger.info('inner-metrics module was loaded');
+    }
     /**
      * 加载静态资源到express容器，具体属性参考依赖库 https://github.com/expressjs/express
      * @param url http(s)访问请求路径
@@ -215,6 +387,98 @@ export class WebServer {
     public get server() { return this._server; }
     public get webRootUrl() { return this._config.webRootUrl; }
     public get webSignPwd() { return this._config.webSignPwd; }
+    /**
+     * 控制器方法的装饰器，配合setController使用，需要在tsconfig.json中启用experimentalDecorators
+     * @param method 请求方法
+     * @param url 相对于控制器前缀的路径
+     * @param options 路由选项
+     */
+    public static route(method: WebRouteMethod, url: string, options: WebRouteOptions = {}) {
+        return (target: object, key: string, descriptor: PropertyDescriptor) => {
+            const holder = target as ControllerRouteHolder;
+            if (!Object.prototype.hasOwnProperty.call(holder, WebServer.ROUTES_KEY)) {
+                const parent = holder[WebServer.ROUTES_KEY];//继承父类控制器的路由
+                Object.defineProperty(holder, WebServer.ROUTES_KEY, { value: parent ? parent.slice() : [], enumerable: false });
+            }
+            holder[WebServer.ROUTES_KEY].push({ method: method, url: url, handler: descriptor.value, options: options });
+        };
+    }
+    /**
+     * 校验请求签名：时间是否在允许的时钟偏差内、随机串是否已经使用过、签名是否匹配
+     * @param req 
+     * @returns 校验通过时返回null，否则返回失败原因
+     */
+    private verifySignature(req: WebRequest): string {
+        const time = Number(req.get(WebBridge.HEADER_SIGN_TIME));
+        const nonce = req.get(WebBridge.HEADER_SIGN_NONCE);
+        const sign = req.get(WebBridge.HEADER_SIGN_VALUE);
+        if (!time || !nonce || !sign) return 'signature not found';
+        const now = Date.now();
+        if (Math.abs(now - time) > this._config.webSignSkew) return 'signature expired';
+        if (now >= this._signPurgeTime) {
+            for (let word in this._signNonces) {
+                if (this._signNonces[word] < now) delete this._signNonces[word];//超出时钟偏差的请求会被直接拒绝，无需继续缓存
+            }
+            this._signPurgeTime = now + 1000;
+        }
+        if (this._signNonces[nonce]) return 'signature replayed';
+        const index = req.originalUrl.indexOf('?');
+        const path = index >= 0 ? req.originalUrl.substring(0, index) : req.originalUrl;
+        const query = index >= 0 ? WebBridge.parseQuery(req.originalUrl.substring(index + 1)) : {};
+        const expect = Buffer.from(WebBridge.createSignature(this._config.webSignPwd, req.method, path, query, req.rawBody || '', time, nonce));
+        const actual = Buffer.from(sign);
+        if (expect.length !== actual.length || !crypto.timingSafeEqual(expect, actual)) return 'signature mismatch';//恒定时间比较，防止时序攻击
+        this._signNonces[nonce] = time + this._config.webSignSkew;
+        return null;
+    }
+    /**
+     * 设置了webSignPwd时，在body-parser的配置中增加保存请求数据原文到req.rawBody的函数
+     * @param config 
+     */
+    private keepRawBody(config: any): Object {
+        if (!this._config.webSignPwd) return config;
+        return Object.assign({}, config, {
+            verify: (req: WebRequest, resp: http.ServerResponse, buf: Buffer, encoding: string) => {
+                req.rawBody = buf.toString(<BufferEncoding>(encoding || 'utf8'));
+                if (config.verify) config.verify(req, resp, buf, encoding);
+            }
+        });
+    }
+    /**
+     * 将路由处理函数抛出的异常转换为响应，映射函数自身抛出异常时按照默认方式处理
+     * @param error 
+     * @param req 
+     */
+    private mapError(error: any, req: express.Request): WssBridgeResponse {
+        let result: WssBridgeResponse = null;
+        if (this._errorMapper) {
+            try {
+                result = this._errorMapper(error, req);
+            } catch (e) {
+                this._logger.error('mapError:', req.method, req.originalUrl, e);
+            }
+        }
+        if (result) {
+            this._logger.debug('setRouter:', req.method, req.originalUrl, result.code, result.data);
+        } else if (error instanceof WebServerError) {
+            this._logger.debug('setRouter:', req.method, req.originalUrl, error.code, error.data);
+            result = new WssBridgeResponse(error.code, error.data);
+        } else {
+            this._logger.error('setRouter:', req.method, req.originalUrl, error);
+            result = new WssBridgeResponse(500, 'Internal Server Error');//不将异常信息暴露给请求方
+        }
+        return result;
+    }
+    /**
+     * 以{ code, data }格式响应请求方，并设置WebBridge.HEADER_ENVELOPE请求头通知WebBridge直接使用其code和data
+     * @param resp 
+     * @param code 状态码，200至599时同时作为HTTP状态码，否则HTTP状态码为200
+     * @param data 
+     */
+    private sendResponse(resp: express.Response, code: number, data: any) {
+        resp.set(WebBridge.HEADER_ENVELOPE, '1');
+        resp.status(code >= 200 && code < 600 ? code : 200).json({ code: code, data: data });
+    }
     /**
      * 确保返回一个object类型
      * @param config 
@@ -222,4 +486,14 @@ export class WebServer {
     private ensureObject(config: any): Object {
         return config && typeof config === 'object' ? config : {};
     }
+}
+
+interface ControllerRoute {
+    method: WebRouteMethod;//请求方法
+    url: string;//相对于控制器前缀的路径
+    handler: WebRouteHandler;//被装饰的方法
+    options: WebRouteOptions;//路由选项
+}
+interface ControllerRouteHolder {
+    [key: string]: ControllerRoute[];//WebServer.ROUTES_KEY对应控制器的全部路由
 }
\ No newline at end of file
@@ -4,31 +4,127 @@
  */
 import { v1 as uuid } from 'uuid';
 import WebSocket from 'ws';
+import crypto from 'crypto';
 import https from 'https';
 import http from 'http';
 import { WssUIDLike, WssSession } from './WssSession';
-import { WssBridge, WssBridgePackData, WssBridgeResponse } from '../client/AllExport';
+import { WssBridge, WssBridgeCipher, WssBridgeCodec, WssBridgeHandshake, WssBridgePackData, WssBridgeResponse } from '../client/AllExport';
+import { JsonSchema, JsonSchemaDefine } from './JsonSchema';
+import type { ClusterRegistry } from './ClusterRegistry';
+import type { OfflineMessage, OfflineStore } from './OfflineStore';
+import type { ChannelInfo, ChannelMember, ChannelRole, ChannelStore } from './ChannelStore';
+import type { ChatMessage, ChatMessageType, ChatReceipt, MessageStore } from './MessageStore';
+import type { MetricsRegistry, MetricsSample } from './MetricsRegistry';
 import type { Logger } from 'log4js';
 import type { EnvContext } from './EnvContext';
 
 export interface WssServerConfig {
     pwd?: string;//数据加密密码，null不启用加密
     secret?: string;//内部推送数据包签名验签密钥
+    secrets?: string[];//密钥轮换期间仍然接受验签的其它密钥，签名总是使用secret
+    innerSkew?: number;//内部推送数据包允许的最大时钟偏差 ms，超出时视为过期的数据包
     binary?: boolean;//true使用二进制收发数据，false使用字符串收发数据
+    cipher?: WssBridgeCipher;//设置了pwd时默认使用的加密模式，收到客户端数据包后该session将切换为客户端使用的模式，集群节点之间也使用该模式
+    ciphers?: WssBridgeCipher[];//设置了pwd时接受的加密模式，使用其它模式的数据包将以4012关闭连接，全部客户端升级后可设为['gcm']拒绝旧的cbc模式，必须包含cipher
+    codec?: WssBridgeCodec;//编解码器，客户端与集群节点必须使用相同的编解码器
+    minVersion?: number;//客户端的最低协议版本，握手时低于此版本的客户端将被拒绝，未握手的旧版本客户端视为版本1
+    requireHandshake?: boolean;//是否要求客户端必须先握手，true时拒绝未握手的旧版本客户端
+    devicePolicy?: 'single' | 'platform' | 'device';//多设备登录策略：single每个uid只保留一个session，platform每个平台保留一个session，device每个设备id保留一个session
+    maxDevices?: number;//platform与device策略下每个uid最多同时绑定的session数量，0不限制
+    deviceOverflow?: 'kickOldest' | 'reject';//超出maxDevices时的处理方式：kickOldest解绑最早绑定的session，reject拒绝新的绑定
     cycle?: number;//心跳检测周期 ms
     timeout?: number;//两个心跳包之间的最大间隔时间 ms
     reqIdCache?: number;//校验重复包的包ID缓存数量 ms
+    offlineTTL?: number;//可靠推送的消息未确认送达时的保存时间 ms
+    offlineLimit?: number;//可靠推送的消息每个uid最多保存的数量，超出时删除最早的消息
+    resumeGrace?: number;//已绑定uid的session断开后可被恢复的时间 ms，0不启用会话恢复
+    resumeBuffer?: number;//等待恢复期间每个session最多缓存的推送数量，超出时丢弃最早的推送
+    rateSession?: number;//每个session每秒最多处理的数据包数量（令牌桶算法，允许同等数量的突发），0不限制
+    rateRoutes?: { [key: string]: number };//每个session的指定路由每秒最多处理的数据包数量，key为路由
+    rateIP?: number;//每个IP每秒最多处理的数据包数量，0不限制
+    rateAction?: 'reply' | 'close';//超出速率限制时的处理方式：reply以状态码429响应请求方，close关闭session
+    maxIPConnections?: number;//每个IP的最大并发连接数量，超出时关闭新的session，0不限制
+    trustProxy?: boolean;//rateIP与maxIPConnections是否使用x-forwarded-for中的客户端IP，仅在部署于反向代理之后时设置为true，否则使用连接的远端地址
+    channelRoute?: string;//推送组成员变动事件的推送路由，设置后join、leave、role事件将推送到本节点的该推送组，null不推送
+    presenceRoute?: string;//在线状态变化的推送路由，推送给订阅了该uid的session
+    presenceExpire?: number;//离线uid的最近在线时间在本节点保存的时间 ms，超出后清除
+    typingRoute?: string;//正在输入事件的推送路由
+    typingThrottle?: number;//每个uid在每个推送组内发送正在输入事件的最小间隔 ms，间隔内重复的事件将被丢弃
+    messageRoute?: string;//新消息以及消息被编辑、撤回后的推送路由
+    receiptRoute?: string;//已读回执的推送路由
+    messageLimit?: number;//每次查询历史消息的最大数量
+    recallTimeout?: number;//消息发送后允许撤回与编辑的时间 ms，0不限制
+    shutdownTimeout?: number;//优雅关闭时等待未完成的路由监听器与远程监听器的最长时间 ms
+    shutdownRetry?: number;//优雅关闭时建议客户端重连的等待时间 ms，每个session在此基础上随机增加最多一倍，避免客户端同时重连
 }
 
 export interface ServerCyclerListener { (server: WssServer, totalSocket: number, totalSession: number): void; }
 export interface SessionCloseListener { (server: WssServer, session: WssSession, code: number, reason: string): void; }
-export interface RouterListener { (server: WssServer, session: WssSession, pack: WssBridgePackData): void; }
-export interface RemoteListener { (server: WssServer, session: WssSession, pack: WssBridgePackData): void; }
+/**
+ * 握手监听器在协议版本与编解码器校验通过后执行，返回false时拒绝该客户端（如：按照clientInfo.client中的应用版本拒绝过旧的客户端）
+ */
+export interface HandshakeListener { (server: WssServer, session: WssSession, clientInfo: WssBridgeHandshake): boolean; }
+/**
+ * 握手认证器在WebSocket升级阶段执行，可以是async函数：
+ * 返回uid时接受连接并立即将该uid绑定到新的session，返回undefined或null时接受连接但不绑定uid，返回false时以HTTP状态码401拒绝连接
+ * 抛出WssServerError时以其code作为HTTP状态码、data作为状态描述拒绝连接，抛出其它异常时记录日志并以HTTP状态码500拒绝连接
+ */
+export interface WssAuthenticator { (server: WssServer, request: http.IncomingMessage): any; }
+/**
+ * 推送组成员变动监听器，在成员关系保存到ChannelStore之后执行，集群部署时可在此调用pushClusterChannel通知其它节点
+ */
+export interface ChannelListener { (server: WssServer, event: ChannelEvent): void; }
+/**
+ * 在线状态监听器，在本节点上uid的在线状态变化时执行，集群部署时可在此持久化最近在线时间或通知其它节点
+ */
+export interface PresenceListener { (server: WssServer, presence: PresenceInfo): void; }
+/**
+ * 路由监听器与远程监听器可以是async函数：
+ * 返回undefined时不自动响应（由监听器自行调用server.response）
+ * 返回WssBridgeResponse实例时将其原样响应，返回其它值时以状态码200响应该值
+ * 抛出WssServerError时以其code和data响应，抛出其它异常时记录日志并以状态码500响应
+ */
+export interface RouterListener { (server: WssServer, session: WssSession, pack: WssBridgePackData): any; }
+export interface RemoteListener { (server: WssServer, session: WssSession, pack: WssBridgePackData): any; }
+/**
+ * 中间件在路由监听器与远程监听器之前按注册顺序执行：
+ * 调用await next()将继续执行后续中间件和监听器，next()的返回值为监听器的返回值，中间件的返回值将作为最终的返回值进行响应
+ * 不调用next()直接返回WssBridgeResponse实例时将以其响应请求方；抛出WssServerError时以其code和data响应请求方
+ * 需要断开连接时，调用session.close(code, reason)后不调用next()并返回undefined即可
+ */
+export interface WssMiddleware { (server: WssServer, session: WssSession, pack: WssBridgePackData, next: () => Promise<any>): any; }
+export interface WssRouteOptions {
+    middlewares?: WssMiddleware[];//该路由专属的中间件，在use或useRemote注册的中间件之后执行
+    schema?: JsonSchemaDefine | JsonSchema;//pack.message的校验规则，在全部中间件之后、监听器之前校验，不通过时以状态码400响应错误列表
+}
+export interface WssDeviceFilter {
+    devices?: string[];//只推送到这些设备id
+    platforms?: string[];//只推送到这些平台
+}
 export interface PushChannelCustomCallback { (uid: WssUIDLike, message: any): any; }
 export interface ClusterDispatchCallback { (cluster: ClusterNode[], tid: WssUIDLike, innerData: InnerData): number; }
 export interface ClusterNode { grp: string; url: string; rmc: WssBridge; }
 export interface GroupChannel { count: number; sessions: { [key: string]: WssSession }; }
-export interface InnerData { tid?: WssUIDLike, route?: string; message?: any; word?: string; sign?: any; }
+export interface ChannelEvent { type: 'join' | 'leave' | 'role'; gid: string; uid: string; role: ChannelRole; }
+export type PresenceStatus = 'online' | 'away' | 'offline';
+export interface PresenceInfo { uid: string; status: PresenceStatus; lastSeen: number; }
+export interface InnerData { tid?: WssUIDLike, route?: string; message?: any; word?: string; time?: number; sign?: any; }
+
+export class WssServerError extends Error {
+    public code: number;//响应的状态码
+    public data: any;//响应的错误描述或数据
+    /**
+     * 在路由监听器或远程监听器中抛出此异常，将以code和data响应请求方
+     * @param code 状态码
+     * @param data 错误描述或数据
+     */
+    public constructor(code: number, data: any) {
+        super(typeof data === 'string' ? data : 'WssServerError: ' + code);
+        this.name = 'WssServerError';
+        this.code = code;
+        this.data = data;
+    }
+}
 
 export class WssServer {
     private _context: EnvContext;
@@ -37,17 +133,45 @@ export class WssServer {
     private _wsscfg: WebSocket.ServerOptions;
     private _wssapp: WebSocket.Server;
     private _server: http.Server | https.Server;
-    private _routerMap: { [key: string]: RouterListener };//路由监听集合
-    private _remoteMap: { [key: string]: RemoteListener };//远程监听集合
+    private _routerMap: { [key: string]: RouteHandle };//路由监听集合
+    private _remoteMap: { [key: string]: RouteHandle };//远程监听集合
+    private _routerWares: WssMiddleware[];//全部路由监听器共用的中间件
+    private _remoteWares: WssMiddleware[];//全部远程监听器共用的中间件
     private _socketMap: { [key: string]: WssSession };//全部session集合，包括未绑定uid的session。（每个websocket连接对应一个session）
-    private _sessionMap: { [key: string]: WssSession };//已绑定uid的session集合
+    private _sessionMap: { [key: string]: { [key: string]: WssSession } };//已绑定uid的session集合，key为uid，子key为session.id
     private _channelMap: { [key: string]: GroupChannel };//自定义消息推送组（如：聊天室、游戏房间等）
     private _clusterMap: { [key: string]: ClusterNode[] };//集群节点分组列表集合
+    private _registry: ClusterRegistry;//集群在线注册表，null时集群推送将发送到节点分组的全部节点
+    private _registryTasks: { [key: string]: Promise<void> };//正在同步到注册表的操作，同一个uid或gid的操作按调用顺序依次执行
+    private _nodeUrl: string;//本节点在集群中的连接地址，作为注册表中的节点标识
+    private _offlineStore: OfflineStore;//可靠推送的消息存储，null时不支持可靠推送
+    private _resumeMap: { [key: string]: ResumeState };//等待恢复的会话集合，key为令牌
+    private _resumeUids: { [key: string]: { [key: string]: boolean } };//等待恢复的uid对应的令牌集合
+    private _resumeGids: { [key: string]: { [key: string]: boolean } };//等待恢复的会话所加入的推送组对应的令牌集合
+    private _authenticator: WssAuthenticator;//握手认证器，null时接受全部连接
+    private _authUids: WeakMap<http.IncomingMessage, WssUIDLike>;//握手认证通过的请求对应的uid
+    private _innerWords: { [key: string]: number };//已收到的内部推送数据包的随机串，value为可清除的时间，用于拒绝重放的数据包
+    private _rateBuckets: { [key: string]: { [key: string]: TokenBucket } };//每个session的速率限制令牌桶，key为session.id，子key为路由（空字符串为session总量）
+    private _ipBuckets: { [key: string]: TokenBucket };//每个IP的速率限制令牌桶
+    private _ipSockets: { [key: string]: number };//每个IP的当前连接数量
+    private _limitIPs: { [key: string]: string };//每个session用于IP限制的地址，key为session.id
     private _totalSocket: number;
     private _totalSession: number;
     private _cycleTicker: NodeJS.Timeout;
     private _serverCyclerListener: ServerCyclerListener;//心跳循环每次运行时的都会通知这个监听器
     private _sessionCloseListener: SessionCloseListener;//session关闭时的监听器，包括未绑定uid的session
+    private _handshakeListener: HandshakeListener;//客户端握手时的监听器
+    private _channelStore: ChannelStore;//推送组的持久化信息存储，null时不支持推送组的元数据与成员角色
+    private _channelListener: ChannelListener;//推送组成员变动时的监听器
+    private _presenceMap: { [key: string]: PresenceInfo };//本节点上在线或离线未超过presenceExpire的uid的在线状态
+    private _presenceSubs: { [key: string]: { [key: string]: WssSession } };//在线状态的订阅者集合，key为被订阅的uid，子key为订阅者session.id
+    private _presenceWatches: { [key: string]: { [key: string]: boolean } };//每个session订阅的uid集合，key为session.id
+    private _typingTimes: { [key: string]: number };//最近发送正在输入事件的时间，key为uid与gid的组合
+    private _presenceListener: PresenceListener;//在线状态变化时的监听器
+    private _messageStore: MessageStore;//聊天消息存储，null时不支持消息的持久化
+    private _pendingCalls: Set<Promise<void>>;//未完成的路由监听器与远程监听器
+    private _shutdown: Promise<void>;//优雅关闭的过程，null时未开始关闭
+    private _metrics: MetricsRegistry;//运行指标的注册表，null时不统计指标
     /**
      * @param context 上下文包装类实例
      * @param category 日志分类
@@ -61,10 +185,41 @@ export class WssServer {
         this._config = {
             pwd: null,
             secret: null,
+            secrets: [],
+            innerSkew: 60 * 1000,
             binary: false,
+            cipher: 'cbc',
+            ciphers: ['cbc', 'gcm'],
+            codec: WssBridgePackData.CODEC_JSON,
+            minVersion: 1,
+            requireHandshake: false,
+            devicePolicy: 'single',
+            maxDevices: 0,
+            deviceOverflow: 'kickOldest',
             cycle: 60 * 1000,
             timeout: 60 * 1000 * 3,
-            reqIdCache: 32
+            reqIdCache: 32,
+            offlineTTL: 60 * 1000 * 60 * 24 * 7,
+            offlineLimit: 100,
+            resumeGrace: 0,
+            resumeBuffer: 100,
+            rateSession: 0,
+            rateRoutes: {},
+            rateIP: 0,
+            rateAction: 'reply',
+            maxIPConnections: 0,
+            trustProxy: false,
+            channelRoute: null,
+            presenceRoute: 'presence',
+            presenceExpire: 60 * 60 * 1000,
+            typingRoute: 'typing',
+            typingThrottle: 3000,
+            messageRoute: 'message',
+            receiptRoute: 'receipt',
+            messageLimit: 100,
+            recallTimeout: 0,
+            shutdownTimeout: 10 * 1000,
+            shutdownRetry: 3000
         };
         Object.assign(this._config, config);//拷贝配置信息
         //绑定log4js实例
@@ -76,23 +231,70 @@ export class WssServer {
         delete wsscfg.port;
         if (wsscfg.noServer) this._logger.warn('ingore wsscfg.noServer');
         delete wsscfg.noServer;
+        const verifyClient = wsscfg.verifyClient;//自定义的校验函数，通过后再执行握手认证
+        delete wsscfg.verifyClient;
         this._wsscfg = wsscfg.server ? {} : { server: context.ssls ? https.createServer(context.readSSLKerCert()) : http.createServer() };
         Object.assign(this._wsscfg, wsscfg);//拷贝ws配置信息
+        this._wsscfg.verifyClient = (info, callback) => {
+            if (!verifyClient) {
+                this._onWebSocketVerify(info.req, callback);//握手认证
+            } else if (verifyClient.length >= 2) {
+                (verifyClient as WebSocket.VerifyClientCallbackAsync)(info, (res, code, message, headers) => {
+                    if (res) {
+                        this._onWebSocketVerify(info.req, callback);
+                    } else {
+                        callback(false, code, message, headers);
+                    }
+                });
+            } else if ((verifyClient as WebSocket.VerifyClientCallbackSync)(info)) {
+                this._onWebSocketVerify(info.req, callback);
+            } else {
+                callback(false, 401, 'Unauthorized');
+            }
+        };
         //绑定app和server
         this._wssapp = new WebSocket.Server(this._wsscfg);//创建ws应用实例
         this._server = this._wsscfg.server;//绑定HTTP/S服务器实例
         //其它属性
         this._routerMap = {};
         this._remoteMap = {};
+        this._routerWares = [];
+        this._remoteWares = [];
         this._socketMap = {};
         this._sessionMap = {};
         this._channelMap = {};
         this._clusterMap = {};
+        this._registry = null;
+        this._registryTasks = {};
+        this._offlineStore = null;
+        this._resumeMap = {};
+        this._resumeUids = {};
+        this._resumeGids = {};
+        this._authenticator = null;
+        this._authUids = new WeakMap();
+        this._innerWords = {};
+        this._rateBuckets = {};
+        this._ipBuckets = {};
+        this._ipSockets = {};
+        this._limitIPs = {};
+        this._nodeUrl = (context.ssls ? 'wss://' : 'ws://') + (context.inip || context.host) + ':' + context.port;
         this._totalSocket = 0;
         this._totalSession = 0;
         this._cycleTicker = null;//定时器
         this._serverCyclerListener = null;
         this._sessionCloseListener = null;
+        this._handshakeListener = null;
+        this._channelStore = null;
+        this._channelListener = null;
+        this._presenceMap = {};
+        this._presenceSubs = {};
+        this._presenceWatches = {};
+        this._typingTimes = {};
+        this._presenceListener = null;
+        this._messageStore = null;
+        this._pendingCalls = new Set();
+        this._shutdown = null;
+        this._metrics = null;
     }
     /**
      * 初始化集群
@@ -105,10 +307,12 @@ export class WssServer {
             const cluster = [];
             for (let k = 0; k < address.length; k++) {
                 const url = (address[k].ssls ? 'wss://' : 'ws://') + (address[k].inip || address[k].host) + ':' + address[k].port;
+                const rmc = new WssBridge(url, this._config.pwd, this._config.binary, 8000, heartick, 2, this._config.cipher, this._config.codec);//远程客户端
+                rmc.setClientInfo({ platform: 'cluster', node: this._nodeUrl });//与其它节点握手，兼容requireHandshake与minVersion
                 cluster.push({
                     grp: appName,//节点分组
                     url: url,//连接地址
-                    rmc: new WssBridge(url, this._config.pwd, this._config.binary, 8000, heartick, 2),//远程客户端
+                    rmc: rmc,
                 });
             }
             if (cluster.length > 0) {
@@ -116,6 +320,73 @@ export class WssServer {
             }
         }
     }
+    /**
+     * 设置集群在线注册表，设置时将清除本节点在注册表中残留的记录
+     * @param registry 
+     */
+    public setRegistry(registry: ClusterRegistry) {
+        this._registry = registry;
+        this._registry.clearNode(this._nodeUrl).catch((e) => {
+            this._logger.error('setRegistry:', this._nodeUrl, e);
+        });
+    }
+    /**
+     * 设置可靠推送的消息存储
+     * @param store 
+     */
+    public setOfflineStore(store: OfflineStore) {
+        this._offlineStore = store;
+    }
+    /**
+     * 设置推送组的持久化信息存储
+     * @param store 
+     */
+    public setChannelStore(store: ChannelStore) {
+        this._channelStore = store;
+    }
+    /**
+     * 设置聊天消息存储
+     * @param store 
+     */
+    public setMessageStore(store: MessageStore) {
+        this._messageStore = store;
+    }
+    /**
+     * 设置运行指标的注册表，并注册本类统计的指标：
+     * 连接数量、已绑定uid的session数量、推送组数量、每个路由收发的数据包数量、监听器耗时、关闭状态码、集群节点连接状态
+     * @param metrics 
+     */
+    public setMetrics(metrics: MetricsRegistry) {
+        this._metrics = metrics;
+        this._metrics.gauge('wss_connections', 'Current websocket connections.', () => Object.keys(this._socketMap).length);
+        this._metrics.gauge('wss_sessions', 'Current sessions bound to an uid.', () => {
+            let total = 0;
+            for (let uid in this._sessionMap) total += Object.keys(this._sessionMap[uid]).length;
+            return total;
+        });
+        this._metrics.gauge('wss_channels', 'Current channels with local sessions.', () => Object.keys(this._channelMap).length);
+        this._metrics.gauge('wss_cluster_bridges', 'Cluster bridge connection status, 1 for connected.', () => {
+            const samples: MetricsSample[] = [];
+            for (let appName in this._clusterMap) {
+                const cluster = this._clusterMap[appName];
+                for (let i = 0; i < cluster.length; i++) {
+                    samples.push({ labels: { app: appName, url: cluster[i].url }, value: cluster[i].rmc.isConnected() ? 1 : 0 });
+                }
+            }
+            return samples;
+        });
+        this._metrics.counter('wss_messages_in_total', 'Packets received by route.');
+        this._metrics.counter('wss_messages_out_total', 'Packets sent by route.');
+        this._metrics.counter('wss_close_total', 'Closed websocket connections by close code.');
+        this._metrics.histogram('wss_handler_duration_seconds', 'Router and remote handler duration by route.');
+    }
+    /**
+     * 设置握手认证器
+     * @param authenticator 
+     */
+    public setAuthenticator(authenticator: WssAuthenticator) {
+        this._authenticator = authenticator;
+    }
     /**
      * 设置周期监听器
      * @param serverCyclerListener 
@@ -125,57 +396,142 @@ export class WssServer {
         this._serverCyclerListener = serverCyclerListener;
         this._sessionCloseListener = sessionCloseListener;
     }
+    /**
+     * 设置握手监听器，集群节点之间的连接也会握手，其clientInfo.client为{ platform: 'cluster', node: 节点地址 }
+     * @param handshakeListener 
+     */
+    public setHandshakeListener(handshakeListener: HandshakeListener) {
+        this._handshakeListener = handshakeListener;
+    }
+    /**
+     * 设置推送组成员变动监听器
+     * @param channelListener 
+     */
+    public setChannelListener(channelListener: ChannelListener) {
+        this._channelListener = channelListener;
+    }
+    /**
+     * 设置在线状态监听器
+     * @param presenceListener 
+     */
+    public setPresenceListener(presenceListener: PresenceListener) {
+        this._presenceListener = presenceListener;
+    }
     /**
      * 设置路由监听器
      * @param route 
      * @param listener 
+     * @param options 
      */
-    public setRouter(route: string, listener: RouterListener) {
-        this._routerMap[route] = listener;
+    public setRouter(route: string, listener: RouterListener, options: WssRouteOptions = {}) {
+        this._routerMap[route] = this._createRouteHandle(listener, options);
     }
     /**
      * 设置远程监听器
      * @param route 
      * @param listener 
+     * @param options 
      */
-    public setRemote(route: string, listener: RemoteListener) {
-        this._remoteMap[route] = listener;
+    public setRemote(route: string, listener: RemoteListener, options: WssRouteOptions = {}) {
+        this._remoteMap[route] = this._createRouteHandle(listener, options);
     }
     /**
-     * 绑定uid到session
+     * 添加全部路由监听器共用的中间件
+     * @param middleware 
+     */
+    public use(middleware: WssMiddleware) {
+        this._routerWares.push(middleware);
+    }
+    /**
+     * 添加全部远程监听器共用的中间件
+     * @param middleware 
+     */
+    public useRemote(middleware: WssMiddleware) {
+        this._remoteWares.push(middleware);
+    }
+    /**
+     * 绑定uid到session，按照devicePolicy与maxDevices处理该uid已经绑定的旧session
      * @param session 
      * @param uid 
-     * @param closeold 
+     * @param closeold 是否关闭被替换的旧session
+     * @param device 设备id
+     * @param platform 平台，如：ios、android、web、desktop
+     * @returns deviceOverflow为reject且超出maxDevices时返回false
      */
-    public bindUid(session: WssSession, uid: WssUIDLike, closeold: boolean = false) {
+    public bindUid(session: WssSession, uid: WssUIDLike, closeold: boolean = false, device: string = null, platform: string = null): boolean {
+        this.unbindUid(session);//新session解绑旧的uid
         //旧session处理
-        const sessionold = this._sessionMap[uid.toString()];
-        if (sessionold) {
-            this.unbindUid(sessionold);//解绑uid对应的旧session（此步骤务必在close之前执行，否则close事件中，会将uid对应的新session移除掉）
-            if (closeold) sessionold.close(RouteCode.CODE_NEWBIND.code, RouteCode.CODE_NEWBIND.data);//关闭旧的session
+        const sessions = this._sessionMap[uid.toString()];
+        const olds: WssSession[] = [];
+        const others: WssSession[] = [];
+        for (let id in sessions) {
+            (this._isReplaced(sessions[id].device, sessions[id].platform, device, platform) ? olds : others).push(sessions[id]);
+        }
+        if (this._config.devicePolicy !== 'single' && this._config.maxDevices > 0 && others.length >= this._config.maxDevices) {
+            if (this._config.deviceOverflow === 'reject') {
+                this._logger.warn('bindUid:', session.ip, session.id, uid, 'max devices', others.length);
+                return false;
+            }
+            others.sort((a, b) => a.bindTime - b.bindTime);
+            olds.push(...others.slice(0, others.length - this._config.maxDevices + 1));//踢掉最早绑定的session
+        }
+        for (let i = 0; i < olds.length; i++) {
+            this.unbindUid(olds[i]);//解绑uid对应的旧session（此步骤务必在close之前执行，否则close事件中，会将uid对应的新session移除掉）
+            if (closeold) olds[i].close(RouteCode.CODE_NEWBIND.code, RouteCode.CODE_NEWBIND.data);//关闭旧的session
         }
         //新session处理
-        this.unbindUid(session);//新session解绑旧的uid
-        session.bindUid(uid);//新session绑定新的的uid
-        this._sessionMap[uid.toString()] = session;//新session绑定到_sessionMap
-        this._logger.debug('bindUid:', session.ip, session.id, session.uid);
+        session.bindUid(uid, device, platform);//新session绑定新的的uid
+        const map = this._sessionMap[uid.toString()] || {};
+        map[session.id] = session;
+        this._sessionMap[uid.toString()] = map;//新session绑定到_sessionMap
+        this._syncRegistry('bindUid', uid);
+        this._updatePresence(uid.toString());
+        this._logger.debug('bindUid:', session.ip, session.id, session.uid, device, platform);
+        //被新session替换的等待恢复的旧会话直接作废，缓存的推送转给新session
+        for (let token in this._resumeUids[uid.toString()]) {
+            const state = this._resumeMap[token];
+            if (state && this._isReplaced(state.device, state.platform, device, platform)) this._flushResume(session, this._takeResume(token));
+        }
+        //下发会话恢复令牌
+        if (this._config.resumeGrace > 0) {
+            session.setResumeToken(crypto.randomBytes(32).toString('hex'));//令牌可以重新绑定uid，必须不可预测
+            const pack = new WssBridgePackData(RouteCode.ROUTE_RESUME, undefined, { token: session.token, grace: this._config.resumeGrace });
+            this._sendPack(session, pack);
+        }
+        this._replayOffline(session, uid);//重发未确认送达的消息
+        return true;
     };
     /**
      * 解绑session的uid
      * @param session 
      */
     public unbindUid(session: WssSession) {
-        if (!session.isBinded()) return;
-        this._logger.debug('unbindUid:', session.ip, session.id, session.uid);
-        delete this._sessionMap[session.uid.toString()];//从_sessionMap中移除
-        session.unbindUid();
+        this._unbindUid(session, true);
     }
     /**
-     * 根据uid从本节点获取session
+     * 根据uid从本节点获取session，多设备登录时返回最近绑定的session
      * @param uid 
      */
     public getSession(uid: WssUIDLike): WssSession {
-        return this._sessionMap[uid.toString()];
+        let result: WssSession = null;
+        const sessions = this._sessionMap[uid.toString()];
+        for (let id in sessions) {
+            if (!result || sessions[id].bindTime >= result.bindTime) result = sessions[id];
+        }
+        return result;
+    }
+    /**
+     * 根据uid从本节点获取全部设备的session
+     * @param uid 
+     * @param filter 只返回匹配的设备，不传则返回全部设备
+     */
+    public getSessions(uid: WssUIDLike, filter?: WssDeviceFilter): WssSession[] {
+        const result: WssSession[] = [];
+        const sessions = this._sessionMap[uid.toString()];
+        for (let id in sessions) {
+            if (this._matchDevice(filter, sessions[id].device, sessions[id].platform)) result.push(sessions[id]);
+        }
+        return result;
     }
     /**
      * 加入本节点的某个消息推送组
@@ -188,6 +544,7 @@ export class WssServer {
             channel.sessions[session.id] = session;
             channel.count++;
             session.joinChannel(gid);
+            if (channel.count === 1) this._syncRegistry('joinChannel', gid);
         }
         this._channelMap[gid.toString()] = channel;
         this._logger.debug('joinChannel:', session.ip, session.id, session.uid, gid);
@@ -205,7 +562,10 @@ export class WssServer {
             channel.count--;
             session.quitChannel(gid);
         }
-        if (channel.count <= 0) delete this._channelMap[gid.toString()];
+        if (channel.count <= 0) {
+            delete this._channelMap[gid.toString()];
+            this._syncRegistry('quitChannel', gid);
+        }
         this._logger.debug('quitChannel:', session.ip, session.id, session.uid, gid);
     }
     /**
@@ -220,8 +580,170 @@ export class WssServer {
             session.quitChannel(gid);
         }
         delete this._channelMap[gid.toString()];
+        this._syncRegistry('quitChannel', gid);
         this._logger.debug('deleteChannel:', gid);
     }
+    /**
+     * 创建推送组，创建者将作为owner角色加入推送组，本节点上已绑定该uid的session将加入消息推送组
+     * @param gid 
+     * @param owner 创建者uid
+     * @param meta 自定义属性
+     * @returns 推送组信息，gid已存在或存储失败时返回null
+     */
+    public async createChannel(gid: WssUIDLike, owner: WssUIDLike, meta: { [key: string]: any } = {}): Promise<ChannelInfo> {
+        if (!this._channelStore) throw Error('channel store not found');
+        const info: ChannelInfo = { gid: gid.toString(), owner: owner.toString(), meta: meta, time: Date.now() };
+        try {
+            if (!await this._channelStore.createChannel(info)) return null;
+            await this._channelStore.saveMember({ gid: info.gid, uid: info.owner, role: 'owner', time: info.time });
+        } catch (e) {
+            this._logger.error('createChannel:', gid, owner, e);
+            return null;
+        }
+        this._onChannelEvent({ type: 'join', gid: info.gid, uid: info.owner, role: 'owner' });
+        this._logger.debug('createChannel:', gid, owner);
+        return info;
+    }
+    /**
+     * 返回推送组信息
+     * @param gid 
+     * @returns 推送组不存在或查询失败时返回null
+     */
+    public async getChannelInfo(gid: WssUIDLike): Promise<ChannelInfo> {
+        if (!this._channelStore) throw Error('channel store not found');
+        try {
+            return await this._channelStore.getChannel(gid.toString());
+        } catch (e) {
+            this._logger.error('getChannelInfo:', gid, e);
+            return null;
+        }
+    }
+    /**
+     * 合并更新推送组的自定义属性
+     * @param gid 
+     * @param meta 
+     * @returns 更新后的推送组信息，推送组不存在或存储失败时返回null
+     */
+    public async updateChannelMeta(gid: WssUIDLike, meta: { [key: string]: any }): Promise<ChannelInfo> {
+        if (!this._channelStore) throw Error('channel store not found');
+        try {
+            return await this._channelStore.updateChannel(gid.toString(), meta);
+        } catch (e) {
+            this._logger.error('updateChannelMeta:', gid, e);
+            return null;
+        }
+    }
+    /**
+     * 删除推送组及其全部成员，同时删除本节点的消息推送组
+     * @param gid 
+     * @returns 存储失败时返回false
+     */
+    public async removeChannel(gid: WssUIDLike): Promise<boolean> {
+        if (!this._channelStore) throw Error('channel store not found');
+        try {
+            await this._channelStore.removeChannel(gid.toString());
+        } catch (e) {
+            this._logger.error('removeChannel:', gid, e);
+            return false;
+        }
+        this.deleteChannel(gid);
+        return true;
+    }
+    /**
+     * 添加推送组成员，成员已存在时更新其角色，本节点上已绑定该uid的session将加入消息推送组
+     * @param gid 
+     * @param uid 
+     * @param role 
+     * @returns 推送组不存在或存储失败时返回false
+     */
+    public async addChannelMember(gid: WssUIDLike, uid: WssUIDLike, role: ChannelRole = 'member'): Promise<boolean> {
+        if (!this._channelStore) throw Error('channel store not found');
+        let old: ChannelMember;
+        try {
+            if (!await this._channelStore.getChannel(gid.toString())) return false;
+            old = await this._channelStore.getMember(gid.toString(), uid.toString());
+            await this._channelStore.saveMember({ gid: gid.toString(), uid: uid.toString(), role: role, time: Date.now() });
+        } catch (e) {
+            this._logger.error('addChannelMember:', gid, uid, e);
+            return false;
+        }
+        if (!old) {
+            this._onChannelEvent({ type: 'join', gid: gid.toString(), uid: uid.toString(), role: role });
+        } else if (old.role !== role) {
+            this._onChannelEvent({ type: 'role', gid: gid.toString(), uid: uid.toString(), role: role });
+        }
+        return true;
+    }
+    /**
+     * 删除推送组成员，本节点上已绑定该uid的session将退出消息推送组
+     * @param gid 
+     * @param uid 
+     * @returns 成员不存在或存储失败时返回false
+     */
+    public async removeChannelMember(gid: WssUIDLike, uid: WssUIDLike): Promise<boolean> {
+        if (!this._channelStore) throw Error('channel store not found');
+        let old: ChannelMember;
+        try {
+            old = await this._channelStore.getMember(gid.toString(), uid.toString());
+            if (!old || !await this._channelStore.removeMember(gid.toString(), uid.toString())) return false;
+        } catch (e) {
+            this._logger.error('removeChannelMember:', gid, uid, e);
+            return false;
+        }
+        this._onChannelEvent({ type: 'leave', gid: gid.toString(), uid: uid.toString(), role: old.role });
+        return true;
+    }
+    /**
+     * 修改推送组成员的角色
+     * @param gid 
+     * @param uid 
+     * @param role 
+     * @returns 成员不存在或存储失败时返回false
+     */
+    public async setChannelRole(gid: WssUIDLike, uid: WssUIDLike, role: ChannelRole): Promise<boolean> {
+        if (!this._channelStore) throw Error('channel store not found');
+        try {
+            const old = await this._channelStore.getMember(gid.toString(), uid.toString());
+            if (!old) return false;
+            if (old.role === role) return true;
+            await this._channelStore.saveMember({ gid: old.gid, uid: old.uid, role: role, time: old.time });
+        } catch (e) {
+            this._logger.error('setChannelRole:', gid, uid, e);
+            return false;
+        }
+        this._onChannelEvent({ type: 'role', gid: gid.toString(), uid: uid.toString(), role: role });
+        return true;
+    }
+    /**
+     * 返回推送组成员信息
+     * @param gid 
+     * @param uid 
+     * @returns 不是成员或查询失败时返回null
+     */
+    public async getChannelMember(gid: WssUIDLike, uid: WssUIDLike): Promise<ChannelMember> {
+        if (!this._channelStore) throw Error('channel store not found');
+        try {
+            return await this._channelStore.getMember(gid.toString(), uid.toString());
+        } catch (e) {
+            this._logger.error('getChannelMember:', gid, uid, e);
+            return null;
+        }
+    }
+    /**
+     * 按照加入时间顺序返回推送组成员列表（成员为uid，与是否在线无关）
+     * @param gid 
+     * @param role 只返回该角色的成员，不传则返回全部成员
+     * @returns 查询失败时返回null
+     */
+    public async listChannelMembers(gid: WssUIDLike, role?: ChannelRole): Promise<ChannelMember[]> {
+        if (!this._channelStore) throw Error('channel store not found');
+        try {
+            return await this._channelStore.listMembers(gid.toString(), role);
+        } catch (e) {
+            this._logger.error('listChannelMembers:', gid, e);
+            return null;
+        }
+    }
     /**
      * 响应本节点的某个session的请求
      * @param session 
@@ -230,8 +752,7 @@ export class WssServer {
      */
     public response(session: WssSession, reqPack: WssBridgePackData, message: WssBridgeResponse) {
         const pack = new WssBridgePackData(RouteCode.ROUTE_RESPONSE, reqPack.reqId, message);
-        const data = WssBridgePackData.serialize(pack, this._config.pwd, this._config.binary);
-        session.send(data, this._getSendOptions());
+        this._sendPack(session, pack);
         this._logger.debug('response:', session.ip, session.id, session.uid, pack);
     }
     /**
@@ -239,14 +760,33 @@ export class WssServer {
      * @param uid 
      * @param route 
      * @param message 
+     * @param reliable 是否可靠推送，需先调用setOfflineStore。可靠推送的消息在客户端确认送达前会被保存，uid再次bindUid时重发（多设备登录时任一设备确认即视为送达）
+     * @param filter 只推送到匹配的设备，不传则推送到该uid的全部设备
+     * @returns 可靠推送时返回消息id，否则返回null
      */
-    public pushSession(uid: WssUIDLike, route: string, message: any) {
-        const session = this._sessionMap[uid.toString()];
-        if (!session) return;
+    public pushSession(uid: WssUIDLike, route: string, message: any, reliable: boolean = false, filter?: WssDeviceFilter): string {
+        if (reliable) {
+            if (this._offlineStore) {
+                const time = Date.now();
+                const item: OfflineMessage = { uid: uid.toString(), msgId: uuid(), route: route, message: message, time: time, expire: time + this._config.offlineTTL };
+                if (filter) item.filter = filter;
+                this._pushReliable(item);
+                return item.msgId;
+            }
+            this._logger.warn('pushSession:', 'offline store not specified, fallback to unreliable push');
+        }
         const pack = new WssBridgePackData(route, undefined, message);
-        const data = WssBridgePackData.serialize(pack, this._config.pwd, this._config.binary);
-        session.send(data, this._getSendOptions());
-        this._logger.debug('pushSession:', session.ip, session.id, session.uid, pack);
+        const cache = {};
+        const sessions = this.getSessions(uid, filter);
+        for (let i = 0; i < sessions.length; i++) {
+            this._sendPack(sessions[i], pack, cache);
+            this._logger.debug('pushSession:', sessions[i].ip, sessions[i].id, sessions[i].uid, pack);
+        }
+        for (let token in this._resumeUids[uid.toString()]) {
+            const state = this._resumeMap[token];
+            if (state && this._matchDevice(filter, state.device, state.platform)) this._bufferResume(token, pack);
+        }
+        return null;
     }
     /**
      * 推送消息到本节点的某批session
@@ -256,15 +796,269 @@ export class WssServer {
      */
     public pushSessionBatch(uids: WssUIDLike[], route: string, message: any) {
         const pack = new WssBridgePackData(route, undefined, message);
-        const data = WssBridgePackData.serialize(pack, this._config.pwd, this._config.binary);
+        const cache = {};
         for (let i = 0; i < uids.length; i++) {
-            const session = this._sessionMap[uids[i].toString()];
-            if (session) {
-                session.send(data, this._getSendOptions());
+            const sessions = this._sessionMap[uids[i].toString()];
+            for (let id in sessions) {
+                this._sendPack(sessions[id], pack, cache);
+            }
+            for (let token in this._resumeUids[uids[i].toString()]) {
+                this._bufferResume(token, pack);
             }
         }
         this._logger.debug('pushSessionBatch:', uids, pack);
     }
+    /**
+     * 返回uid在本节点的在线状态，等待会话恢复期间仍视为在线
+     * @param uid 
+     * @returns lastSeen为最近在线的时间，在线时为当前时间，本节点上从未出现过或离线超过presenceExpire的uid的lastSeen为0
+     */
+    public getPresence(uid: WssUIDLike): PresenceInfo {
+        const info = this._presenceMap[uid.toString()];
+        if (!info) return { uid: uid.toString(), status: 'offline', lastSeen: 0 };
+        return { uid: info.uid, status: info.status, lastSeen: info.status === 'offline' ? info.lastSeen : Date.now() };
+    }
+    /**
+     * 设置在线uid的状态为online或away（如：客户端切换到后台、长时间无操作），并通知订阅者
+     * @param uid 
+     * @param status 
+     * @returns uid不在线时返回false
+     */
+    public setPresence(uid: WssUIDLike, status: 'online' | 'away'): boolean {
+        const info = this._presenceMap[uid.toString()];
+        if (!info || info.status === 'offline') return false;
+        if (info.status !== status) {
+            info.status = status;
+            info.lastSeen = Date.now();
+            this._onPresenceChange(info);
+        }
+        return true;
+    }
+    /**
+     * 订阅uid列表的在线状态，状态变化时以presenceRoute推送给该session
+     * @param session 
+     * @param uids 
+     * @returns 订阅的uid列表当前的在线状态
+     */
+    public subscribePresence(session: WssSession, uids: WssUIDLike[]): PresenceInfo[] {
+        const result: PresenceInfo[] = [];
+        const watches = this._presenceWatches[session.id] || {};
+        for (let i = 0; i < uids.length; i++) {
+            const uid = uids[i].toString();
+            const subs = this._presenceSubs[uid] || {};
+            subs[session.id] = session;
+            this._presenceSubs[uid] = subs;
+            watches[uid] = true;
+            result.push(this.getPresence(uid));
+        }
+        this._presenceWatches[session.id] = watches;
+        this._logger.debug('subscribePresence:', session.ip, session.id, session.uid, uids);
+        return result;
+    }
+    /**
+     * 取消订阅uid列表的在线状态
+     * @param session 
+     * @param uids 不传则取消该session的全部订阅
+     */
+    public unsubscribePresence(session: WssSession, uids?: WssUIDLike[]) {
+        const watches = this._presenceWatches[session.id];
+        if (!watches) return;
+        const keys = uids ? uids.map((uid) => uid.toString()) : Object.keys(watches);
+        for (let i = 0; i < keys.length; i++) {
+            const subs = this._presenceSubs[keys[i]];
+            if (subs) {
+                delete subs[session.id];
+                if (this._context.isEmptyObject(subs)) delete this._presenceSubs[keys[i]];
+            }
+            delete watches[keys[i]];
+        }
+        if (this._context.isEmptyObject(watches)) delete this._presenceWatches[session.id];
+        this._logger.debug('unsubscribePresence:', session.ip, session.id, session.uid, uids);
+    }
+    /**
+     * 以typingRoute推送正在输入事件到本节点的某个消息推送组，不保存、不可靠推送、不缓存到等待恢复的会话，发送者的全部session不会收到该事件
+     * @param session 发送者，必须已绑定uid并已加入该推送组
+     * @param gid 
+     * @param typing true开始输入，false停止输入（停止输入的事件不受typingThrottle限制）
+     * @returns 未加入该推送组或被节流丢弃时返回false
+     */
+    public pushTyping(session: WssSession, gid: WssUIDLike, typing: boolean = true): boolean {
+        const channel = this._channelMap[gid.toString()];
+        if (!session.isBinded() || !channel || !channel.sessions[session.id]) return false;
+        const key = session.uid.toString() + '@' + gid.toString();
+        const now = Date.now();
+        if (typing) {
+            if (this._typingTimes[key] > now - this._config.typingThrottle) return false;
+            this._typingTimes[key] = now;
+        } else {
+            delete this._typingTimes[key];
+        }
+        const pack = new WssBridgePackData(this._config.typingRoute, undefined, { gid: gid.toString(), uid: session.uid.toString(), typing: typing });
+        const cache = {};
+        for (let id in channel.sessions) {
+            const member = channel.sessions[id];
+            if (member.uid !== undefined && member.uid !== null && member.uid.toString() === session.uid.toString()) continue;
+            this._sendPack(member, pack, cache);
+        }
+        return true;
+    }
+    /**
+     * 保存并推送一条聊天消息：私聊推送给接收者与发送者的全部设备，推送组消息推送给本节点的该推送组
+     * 集群部署时，其它节点上的接收者请通过pushClusterSession或pushClusterChannel推送返回的消息
+     * @param from 发送者uid
+     * @param type 消息类型
+     * @param to 私聊时为接收者uid，推送组消息时为推送组gid
+     * @param content 消息内容
+     * @returns 保存的消息，存储失败时返回null
+     */
+    public async sendMessage(from: WssUIDLike, type: ChatMessageType, to: WssUIDLike, content: any): Promise<ChatMessage> {
+        if (!this._messageStore) throw Error('message store not found');
+        const cid = type === 'private' ? WssServer.privateCid(from, to) : WssServer.channelCid(to);
+        let message: ChatMessage;
+        try {
+            message = await this._messageStore.save({ cid: cid, seq: 0, type: type, from: from.toString(), to: to.toString(), content: content, time: Date.now(), editTime: 0, recalled: false });
+        } catch (e) {
+            this._logger.error('sendMessage:', cid, from, e);
+            return null;
+        }
+        if (message) this._pushMessage(this._config.messageRoute, message, message);
+        return message;
+    }
+    /**
+     * 分页查询会话的历史消息，结果按照seq升序排列
+     * @param cid 会话id
+     * @param before 返回seq小于该值的最新消息，用于向前翻页
+     * @param after 返回seq大于该值的最早消息，用于拉取新消息
+     * @param limit 每页数量，不超过messageLimit
+     * @returns 查询失败时返回null
+     */
+    public async getMessageHistory(cid: string, before: number = 0, after: number = 0, limit: number = 20): Promise<ChatMessage[]> {
+        if (!this._messageStore) throw Error('message store not found');
+        try {
+            return await this._messageStore.history(cid, before, after, Math.min(Math.max(limit, 1), this._config.messageLimit));
+        } catch (e) {
+            this._logger.error('getMessageHistory:', cid, e);
+            return null;
+        }
+    }
+    /**
+     * 更新uid在会话中的已读位置，并以receiptRoute推送已读回执给会话的其他成员与该uid的全部设备
+     * @param cid 
+     * @param uid 
+     * @param seq 已读到的消息序号
+     * @returns 更新后的已读位置，消息不存在或存储失败时返回null
+     */
+    public async markMessageRead(cid: string, uid: WssUIDLike, seq: number): Promise<ChatReceipt> {
+        if (!this._messageStore) throw Error('message store not found');
+        let message: ChatMessage;
+        let receipt: ChatReceipt;
+        try {
+            message = await this._messageStore.get(cid, seq);
+            if (!message) return null;
+            receipt = await this._messageStore.setRead(cid, uid.toString(), seq);
+        } catch (e) {
+            this._logger.error('markMessageRead:', cid, uid, seq, e);
+            return null;
+        }
+        if (receipt) this._pushMessage(this._config.receiptRoute, message, receipt);
+        return receipt;
+    }
+    /**
+     * 返回uid在多个会话中的未读消息数量
+     * @param uid 
+     * @param cids 
+     * @returns key为cid，查询失败时返回null
+     */
+    public async getUnreadCounts(uid: WssUIDLike, cids: string[]): Promise<{ [key: string]: number }> {
+        if (!this._messageStore) throw Error('message store not found');
+        const result: { [key: string]: number } = {};
+        try {
+            for (let i = 0; i < cids.length; i++) {
+                const receipt = await this._messageStore.getRead(cids[i], uid.toString());
+                result[cids[i]] = await this._messageStore.countUnread(cids[i], uid.toString(), receipt ? receipt.seq : 0);
+            }
+        } catch (e) {
+            this._logger.error('getUnreadCounts:', uid, e);
+            return null;
+        }
+        return result;
+    }
+    /**
+     * 撤回消息，只有发送者可以撤回，撤回后以messageRoute推送更新后的消息
+     * @param cid 
+     * @param seq 
+     * @param uid 操作者uid
+     * @returns 撤回后的消息，消息不存在、不是发送者、已超出recallTimeout或存储失败时返回null
+     */
+    public async recallMessage(cid: string, seq: number, uid: WssUIDLike): Promise<ChatMessage> {
+        return this._modifyMessage('recallMessage', cid, seq, uid, { content: null, recalled: true });
+    }
+    /**
+     * 编辑消息，只有发送者可以编辑未撤回的消息，编辑后以messageRoute推送更新后的消息
+     * @param cid 
+     * @param seq 
+     * @param uid 操作者uid
+     * @param content 新的消息内容
+     * @returns 编辑后的消息，消息不存在、不是发送者、已撤回、已超出recallTimeout或存储失败时返回null
+     */
+    public async editMessage(cid: string, seq: number, uid: WssUIDLike, content: any): Promise<ChatMessage> {
+        return this._modifyMessage('editMessage', cid, seq, uid, { content: content, editTime: Date.now() });
+    }
+    /**
+     * 注册聊天消息的路由监听器，请求方必须已绑定uid，会话id由服务端根据请求参数计算或校验
+     * 推送组消息在设置了ChannelStore时要求发送者是推送组成员，否则要求发送者的session已加入本节点的该推送组
+     * @param prefix 路由前缀，注册的路由为：send、history、read、unread、recall、edit
+     */
+    public useMessageRoutes(prefix: string = 'message.') {
+        const cidSchema: JsonSchemaDefine = { type: 'string', minLength: 1 };
+        const seqSchema: JsonSchemaDefine = { type: 'integer', minimum: 1 };
+        this.setRouter(prefix + 'send', async (server, session, pack) => {
+            const uid = this._requireUid(session);
+            const msg = pack.message;
+            if (msg.type === 'channel' && !await this._canAccessCid(session, WssServer.channelCid(msg.to))) throw new WssServerError(403, 'Forbidden');
+            const message = await this.sendMessage(uid, msg.type, msg.to, msg.content);
+            if (!message) throw new WssServerError(500, 'Internal Server Error');
+            return message;
+        }, { schema: { type: 'object', required: ['type', 'to', 'content'], properties: { type: { enum: ['private', 'channel'] }, to: { type: ['string', 'number'] } } } });
+        this.setRouter(prefix + 'history', async (server, session, pack) => {
+            this._requireUid(session);
+            const msg = pack.message;
+            if (!await this._canAccessCid(session, msg.cid)) throw new WssServerError(403, 'Forbidden');
+            const messages = await this.getMessageHistory(msg.cid, msg.before, msg.after, msg.limit);
+            if (!messages) throw new WssServerError(500, 'Internal Server Error');
+            return messages;
+        }, { schema: { type: 'object', required: ['cid'], properties: { cid: cidSchema, before: { type: 'integer', minimum: 0 }, after: { type: 'integer', minimum: 0 }, limit: { type: 'integer', minimum: 1 } } } });
+        this.setRouter(prefix + 'read', async (server, session, pack) => {
+            const uid = this._requireUid(session);
+            const msg = pack.message;
+            if (!await this._canAccessCid(session, msg.cid)) throw new WssServerError(403, 'Forbidden');
+            const receipt = await this.markMessageRead(msg.cid, uid, msg.seq);
+            if (!receipt) throw new WssServerError(404, 'Not Found');
+            return receipt;
+        }, { schema: { type: 'object', required: ['cid', 'seq'], properties: { cid: cidSchema, seq: seqSchema } } });
+        this.setRouter(prefix + 'unread', async (server, session, pack) => {
+            const uid = this._requireUid(session);
+            const cids: string[] = pack.message.cids;
+            for (let i = 0; i < cids.length; i++) {
+                if (!await this._canAccessCid(session, cids[i])) throw new WssServerError(403, 'Forbidden');
+            }
+            const counts = await this.getUnreadCounts(uid, cids);
+            if (!counts) throw new WssServerError(500, 'Internal Server Error');
+            return counts;
+        }, { schema: { type: 'object', required: ['cids'], properties: { cids: { type: 'array', items: cidSchema, maxItems: this._config.messageLimit } } } });
+        this.setRouter(prefix + 'recall', async (server, session, pack) => {
+            const uid = this._requireUid(session);
+            const message = await this.recallMessage(pack.message.cid, pack.message.seq, uid);
+            if (!message) throw new WssServerError(403, 'Forbidden');
+            return message;
+        }, { schema: { type: 'object', required: ['cid', 'seq'], properties: { cid: cidSchema, seq: seqSchema } } });
+        this.setRouter(prefix + 'edit', async (server, session, pack) => {
+            const uid = this._requireUid(session);
+            const message = await this.editMessage(pack.message.cid, pack.message.seq, uid, pack.message.content);
+            if (!message) throw new WssServerError(403, 'Forbidden');
+            return message;
+        }, { schema: { type: 'object', required: ['cid', 'seq', 'content'], properties: { cid: cidSchema, seq: seqSchema } } });
+    }
     /**
      * 推送消息到本节点的某个消息推送组
      * @param gid 
@@ -273,12 +1067,18 @@ export class WssServer {
      */
     public pushChannel(gid: WssUIDLike, route: string, message: any) {
         const channel = this._channelMap[gid.toString()];
-        if (!channel) return;
+        const tokens = this._resumeGids[gid.toString()];
+        if (!channel && !tokens) return;
         const pack = new WssBridgePackData(route, undefined, message);
-        const data = WssBridgePackData.serialize(pack, this._config.pwd, this._config.binary);
-        for (let id in channel.sessions) {
-            const session = channel.sessions[id];
-            session.send(data, this._getSendOptions());
+        const cache = {};
+        if (channel) {
+            for (let id in channel.sessions) {
+                const session = channel.sessions[id];
+                this._sendPack(session, pack, cache);
+            }
+        }
+        for (let token in tokens) {
+            this._bufferResume(token, pack);
         }
         this._logger.debug('pushChannel:', gid, pack);
     }
@@ -295,8 +1095,7 @@ export class WssServer {
         for (let id in channel.sessions) {
             const session = channel.sessions[id];
             const pack = new WssBridgePackData(route, undefined, customCallback(session.uid, message));
-            const data = WssBridgePackData.serialize(pack, this._config.pwd, this._config.binary);
-            session.send(data, this._getSendOptions());
+            this._sendPack(session, pack);
             this._logger.debug('pushChannelCustom:', session.ip, session.id, session.uid, gid, pack);
         }
     }
@@ -307,22 +1106,24 @@ export class WssServer {
      */
     public broadcast(route: string, message: any) {
         const pack = new WssBridgePackData(route, undefined, message);
-        const data = WssBridgePackData.serialize(pack, this._config.pwd, this._config.binary);
+        const cache = {};
         for (let uid in this._sessionMap) {
-            const session = this._sessionMap[uid];
-            session.send(data, this._getSendOptions());
+            const sessions = this._sessionMap[uid];
+            for (let id in sessions) {
+                this._sendPack(sessions[id], pack, cache);
+            }
         }
         this._logger.debug('broadcast:', pack);
     }
     /**
-     * 推送消息到某个节点的某个session，建议通过dispatchCallback来优化推送性能
+     * 推送消息到某个节点的某个session，建议通过dispatchCallback或setRegistry来优化推送性能
      * @param appName 节点分组名
      * @param uid 
      * @param route 
      * @param message 
-     * @param dispatchCallback 分配节点，如果未指定该函数，则从该节点分组的全部节点中搜索对应uid的session
+     * @param dispatchCallback 分配节点，如果未指定该函数，则推送到注册表中uid所在的节点，未设置注册表时从该节点分组的全部节点中搜索对应uid的session
      */
-    public pushClusterSession(appName: string, uid: WssUIDLike, route: string, message: any, dispatchCallback?: ClusterDispatchCallback) {
+    public async pushClusterSession(appName: string, uid: WssUIDLike, route: string, message: any, dispatchCallback?: ClusterDispatchCallback): Promise<void> {
         const cluster = this._clusterMap[appName];
         const innerData = this._generateInnerData(uid, route, message);
         if (dispatchCallback) {
@@ -330,22 +1131,23 @@ export class WssServer {
             handle.rmc.request(RouteCode.ROUTE_INNERP2P, innerData);
             this._logger.debug('pushClusterSession:', appName, handle.url, innerData);
         } else {
-            for (let i = 0; i < cluster.length; i++) {
-                const handle = cluster[i];
+            const targets = await this._findClusterNodes(cluster, 'findUid', uid);
+            for (let i = 0; i < targets.length; i++) {
+                const handle = targets[i];
                 handle.rmc.request(RouteCode.ROUTE_INNERP2P, innerData);
                 this._logger.debug('pushClusterSession:', appName, handle.url, innerData);
             }
         }
     }
     /**
-     * 推送消息到某个节点的某个消息推送组，建议通过dispatchCallback来优化推送性能
+     * 推送消息到某个节点的某个消息推送组，建议通过dispatchCallback或setRegistry来优化推送性能
      * @param appName 节点分组名
      * @param gid 
      * @param route 
      * @param message 
-     * @param dispatchCallback 分配节点，如果未指定该函数，则从该节点分组的全部节点中搜索对应gid的channel
+     * @param dispatchCallback 分配节点，如果未指定该函数，则推送到注册表中gid所在的节点，未设置注册表时从该节点分组的全部节点中搜索对应gid的channel
      */
-    public pushClusterChannel(appName: string, gid: WssUIDLike, route: string, message: any, dispatchCallback?: ClusterDispatchCallback) {
+    public async pushClusterChannel(appName: string, gid: WssUIDLike, route: string, message: any, dispatchCallback?: ClusterDispatchCallback): Promise<void> {
         const cluster = this._clusterMap[appName];
         const innerData = this._generateInnerData(gid, route, message);
         if (dispatchCallback) {
@@ -353,8 +1155,9 @@ export class WssServer {
             handle.rmc.request(RouteCode.ROUTE_INNERGRP, innerData);
             this._logger.debug('pushClusterChannel:', appName, handle.url, innerData);
         } else {
-            for (let i = 0; i < cluster.length; i++) {
-                const handle = cluster[i];
+            const targets = await this._findClusterNodes(cluster, 'findChannel', gid);
+            for (let i = 0; i < targets.length; i++) {
+                const handle = targets[i];
                 handle.rmc.request(RouteCode.ROUTE_INNERGRP, innerData);
                 this._logger.debug('pushClusterChannel:', appName, handle.url, innerData);
             }
@@ -410,13 +1213,7 @@ export class WssServer {
         const index = dispatchCallback ? dispatchCallback(cluster, null, msgdata) : Math.min(Math.floor(Math.random() * cluster.length), cluster.length - 1);
         const handle = cluster[index];
         this._logger.debug('callRemoteForResult:', appName, handle.url, msgdata);
-        return new Promise((resolve) => {
-            handle.rmc.request(RouteCode.ROUTE_INNERRMC, msgdata, (resp, params) => {
-                resolve(resp);
-            }, (resp, params) => {
-                resolve(resp);
-            }, this);
-        });
+        return handle.rmc.requestAsync(RouteCode.ROUTE_INNERRMC, msgdata);
     }
     /**
      * 开启服务器
@@ -427,6 +1224,7 @@ export class WssServer {
         if (this._config.cycle < 10000) throw Error('cycle >= 10,000ms');
         if (this._config.timeout < 30000) throw Error('timeout >= 30,000ms');
         if (this._config.cycle * 3 > this._config.timeout) throw Error('timeout >= cycle * 3');
+        if (this._config.ciphers.indexOf(this._config.cipher) < 0) throw Error('ciphers must include cipher');
         //注册监听
         this._wssapp.on('connection', (socket, request) => {
             this._onWebSocketConnection(socket, request);
@@ -475,6 +1273,78 @@ export class WssServer {
             if (callback) callback(error);
         });
     }
+    /**
+     * 优雅关闭服务器：
+     * 1、停止接受新的连接，拒绝已连接session的新请求（以状态码503响应）
+     * 2、等待未完成的路由监听器与远程监听器，最长等待shutdownTimeout
+     * 3、以状态码1001关闭全部session，reason中的retry为建议的重连等待时间，然后关闭服务器
+     * 重复调用时返回同一个过程
+     */
+    public shutdown(): Promise<void> {
+        if (this._shutdown) return this._shutdown;
+        this._shutdown = (async () => {
+            const deadline = Date.now() + this._config.shutdownTimeout;
+            this._logger.info('shutdown:', 'pending->', this._pendingCalls.size, 'sockets->', Object.keys(this._socketMap).length);
+            const closed = new Promise<void>((resolve) => {
+                this._server.close((error) => {
+                    if (error) this._logger.error('shutdown:', error);
+                    resolve();
+                });//停止监听，全部连接关闭后回调
+            });
+            //等待未完成的监听器
+            while (this._pendingCalls.size > 0 && Date.now() < deadline) {
+                let timer: NodeJS.Timeout;
+                await Promise.race([Promise.all(Array.from(this._pendingCalls)), new Promise((resolve) => { timer = setTimeout(resolve, deadline - Date.now()); })]);
+                clearTimeout(timer);//监听器先完成时清除定时器，避免进程被挂起
+            }
+            if (this._pendingCalls.size > 0) this._logger.warn('shutdown:', 'pending->', this._pendingCalls.size, 'timeout');
+            //通知并关闭全部session
+            for (let id in this._socketMap) {
+                const retry = this._config.shutdownRetry + Math.floor(Math.random() * this._config.shutdownRetry);
+                this._socketMap[id].close(RouteCode.CODE_GOAWAY.code, RouteCode.CODE_GOAWAY.data + ', retry=' + retry);
+            }
+            //销毁心跳循环与关联的集群节点
+            if (this._cycleTicker) {
+                clearInterval(this._cycleTicker);
+                this._cycleTicker = null;
+            }
+            for (let appName in this._clusterMap) {
+                const cluster = this._clusterMap[appName];
+                for (let i = 0; i < cluster.length; i++) {
+                    cluster[i].rmc.disconnect();
+                }
+            }
+            //等待连接关闭，超时未完成关闭握手的连接直接丢弃
+            const closeline = Math.max(deadline, Date.now() + 1000);
+            while (!this._context.isEmptyObject(this._socketMap) && Date.now() < closeline) {
+                await new Promise((resolve) => setTimeout(resolve, 50));
+            }
+            let closeTimer: NodeJS.Timeout;
+            await Promise.race([closed, new Promise((resolve) => { closeTimer = setTimeout(resolve, Math.max(closeline - Date.now(), 0)); })]);
+            clearTimeout(closeTimer);
+            this._logger.info('ssls', this._context.ssls, this._context.host, this._context.port, 'was shutdown.');
+        })();
+        return this._shutdown;
+    }
+    /**
+     * 收到SIGTERM或SIGINT信号（如：pm2 reload、pm2 stop、Ctrl+C）时优雅关闭服务器
+     * 注意：pm2默认的kill_timeout为1600ms，请将其设置为大于shutdownTimeout的值
+     * @param callback 关闭完成后的回调，不传则关闭完成后退出进程
+     */
+    public handleSignals(callback?: (signal: NodeJS.Signals) => void) {
+        const onsignal = (signal: NodeJS.Signals) => {
+            this._logger.info('handleSignals:', signal);
+            this.shutdown().then(() => {
+                if (callback) {
+                    callback(signal);
+                } else {
+                    process.exit(0);
+                }
+            });
+        };
+        process.once('SIGTERM', onsignal);
+        process.once('SIGINT', onsignal);
+    }
     /**
      * 周期循环
      */
@@ -490,6 +1360,25 @@ export class WssServer {
                 totalSession += session.isBinded() ? 1 : 0;
             }
         }
+        //清除已无连接且令牌已补满的IP令牌桶
+        for (let ip in this._ipBuckets) {
+            if (!this._ipSockets[ip] && this._ipBuckets[ip].isFull()) delete this._ipBuckets[ip];
+        }
+        //清除超时未恢复的会话
+        const now = Date.now();
+        for (let word in this._innerWords) {
+            if (this._innerWords[word] < now) delete this._innerWords[word];//超出时钟偏差的数据包会被直接拒绝，无需继续缓存
+        }
+        for (let token in this._resumeMap) {
+            if (this._resumeMap[token].expire < now) this._expireResume(token);
+        }
+        for (let key in this._typingTimes) {
+            if (this._typingTimes[key] <= now - this._config.typingThrottle) delete this._typingTimes[key];
+        }
+        for (let uid in this._presenceMap) {
+            const info = this._presenceMap[uid];
+            if (info.status === 'offline' && info.lastSeen < now - this._config.presenceExpire) delete this._presenceMap[uid];//长时间离线的uid不再保存
+        }
         this._logger.info('_onServerLifeCycle:', 'totalSocket->', totalSocket, 'totalSession->', totalSession);
         //更新连接数量
         this._totalSocket = totalSocket;
@@ -499,6 +1388,39 @@ export class WssServer {
             this._serverCyclerListener(this, this._totalSocket, this._totalSession);
         }
     }
+    /**
+     * WebSocket升级阶段执行握手认证
+     * @param request 
+     * @param callback 
+     */
+    private async _onWebSocketVerify(request: http.IncomingMessage, callback: (res: boolean, code?: number, message?: string) => void) {
+        if (this._shutdown) {
+            callback(false, 503, 'Service Unavailable');//正在优雅关闭，拒绝新的连接
+            return;
+        }
+        if (!this._authenticator) {
+            callback(true);
+            return;
+        }
+        try {
+            const uid = await this._authenticator(this, request);
+            if (uid === false) {
+                this._logger.debug('_onWebSocketVerify:', request.socket.remoteAddress, 401);
+                callback(false, 401, 'Unauthorized');
+                return;
+            }
+            if (uid !== undefined && uid !== null) this._authUids.set(request, uid);
+            callback(true);
+        } catch (e) {
+            if (e instanceof WssServerError) {
+                this._logger.debug('_onWebSocketVerify:', request.socket.remoteAddress, e.code, e.data);
+                callback(false, e.code, typeof e.data === 'string' ? e.data : e.message);
+            } else {
+                this._logger.error('_onWebSocketVerify:', request.socket.remoteAddress, e);
+                callback(false, 500, 'Internal Server Error');
+            }
+        }
+    }
     /**
      * 收到连接后注册监听
      * @param socket 
@@ -506,27 +1428,48 @@ export class WssServer {
      */
     private _onWebSocketConnection(socket: WebSocket, request: http.IncomingMessage) {
         const session = new WssSession(socket, this._context.getIPV4({ headers: request.headers, ip: request.socket.remoteAddress }));
+        const limitIP = this._getLimitIP(request);
         this._socketMap[session.id] = session;//绑定到_socketMap
+        this._limitIPs[session.id] = limitIP;
+        this._ipSockets[limitIP] = (this._ipSockets[limitIP] || 0) + 1;//增加IP连接数量
         socket.binaryType = 'arraybuffer';//指定读取格式为arraybuffer
         socket.on('message', (data) => {
             this._onWebSocketMessage(session, data as (ArrayBuffer | string));
         });
         socket.on('close', (code, reason) => {
             this._logger.info('on websocket close:', session.ip, session.id, session.uid, code, reason);
+            if (this._metrics) this._metrics.inc('wss_close_total', { code: code });
             //回调上层绑定的监听器
             if (this._sessionCloseListener) {
                 this._sessionCloseListener(this, session, code, reason);
             }
             //统一进行内存清理操作
+            const resumable = this._saveResume(session);//保存可恢复的会话状态
             session.eachChannel((gid) => { this.quitChannel(session, gid) });//退出已加入的所有分组
-            this.unbindUid(session);//可能已经绑定了uid，需要进行解绑操作
+            this._unbindUid(session, !resumable);//可能已经绑定了uid，需要进行解绑操作（等待恢复期间保留注册表中的记录）
             delete this._socketMap[session.id];//从_socketMap中移除
+            delete this._rateBuckets[session.id];//移除速率限制令牌桶
+            this.unsubscribePresence(session);//取消全部在线状态订阅
+            delete this._limitIPs[session.id];
+            if (--this._ipSockets[limitIP] <= 0) delete this._ipSockets[limitIP];//减少IP连接数量
         });
         socket.on('error', (error) => {
             this._logger.error('on websocket error:', session.ip, session.id, session.uid, error.toString());
             session.close(RouteCode.CODE_SOCKET.code, RouteCode.CODE_SOCKET.data + ': ' + error.toString());
         });
         this._logger.info('on websocket connection:', session.ip, session.id);
+        //校验IP并发连接数量
+        if (this._config.maxIPConnections > 0 && this._ipSockets[limitIP] > this._config.maxIPConnections) {
+            this._logger.warn('on websocket connection:', session.ip, session.id, RouteCode.CODE_LIMIT.code, limitIP, this._ipSockets[limitIP]);
+            session.close(RouteCode.CODE_LIMIT.code, RouteCode.CODE_LIMIT.data);
+            return;
+        }
+        //绑定握手认证通过的uid
+        const uid = this._authUids.get(request);
+        if (uid !== undefined) {
+            this._authUids.delete(request);
+            this.bindUid(session, uid);
+        }
     }
     /**
      * 
@@ -534,13 +1477,25 @@ export class WssServer {
      * @param data 
      */
     private _onWebSocketMessage(session: WssSession, data: ArrayBuffer | string) {
-        const pack = WssBridgePackData.deserialize(data, this._config.pwd);
+        let pack = WssBridgePackData.deserialize(data, this._config.pwd, this._config.codec);
+        if ((!pack || typeof pack.route !== 'string') && this._config.codec !== WssBridgePackData.CODEC_JSON) {
+            //握手包总是使用JSON编解码器
+            const json = WssBridgePackData.deserialize(data, this._config.pwd, WssBridgePackData.CODEC_JSON);
+            if (json && json.route === RouteCode.ROUTE_HANDSHAKE) pack = json;
+        }
         //解析包数据
         if (!pack) {
             this._logger.error('_onWebSocketMessage:', session.ip, session.id, session.uid, RouteCode.CODE_PARSE.code, data);
             session.close(RouteCode.CODE_PARSE.code, RouteCode.CODE_PARSE.data);
             return;
         }
+        //校验加密模式
+        if (pack.cipher && this._config.ciphers.indexOf(pack.cipher) < 0) {
+            this._logger.error('_onWebSocketMessage:', session.ip, session.id, session.uid, RouteCode.CODE_CIPHER.code, pack.cipher);
+            session.close(RouteCode.CODE_CIPHER.code, RouteCode.CODE_CIPHER.data);
+            return;
+        }
+        if (pack.cipher) session.setCipher(pack.cipher);//跟随客户端使用的加密模式
         //校验包格式
         if (typeof pack.route !== 'string' || typeof pack.reqId !== 'number' || pack.message === undefined || pack.message === null) {
             this._logger.error('_onWebSocketMessage:', session.ip, session.id, session.uid, RouteCode.CODE_FORMAT.code, pack);
@@ -553,6 +1508,19 @@ export class WssServer {
             session.close(RouteCode.CODE_REPEAT.code, RouteCode.CODE_REPEAT.data);
             return;
         }
+        if (this._metrics) this._metrics.inc('wss_messages_in_total', { route: this._routerMap[pack.route] || RouteCode.isReserved(pack.route) ? pack.route : 'unknown' });//未注册的路由不作为标签，避免标签数量无限增长
+        //握手包
+        if (pack.route === RouteCode.ROUTE_HANDSHAKE) {
+            this._logger.debug('_onWebSocketMessage:', session.ip, session.id, session.uid, pack);
+            this._handshake(session, pack);
+            return;
+        }
+        //校验是否已握手，未握手的旧版本客户端视为版本1
+        if ((this._config.requireHandshake || this._config.minVersion > 1) && !session.clientInfo) {
+            this._logger.error('_onWebSocketMessage:', session.ip, session.id, session.uid, RouteCode.CODE_VERSION.code, pack);
+            session.close(RouteCode.CODE_VERSION.code, RouteCode.CODE_VERSION.data);
+            return;
+        }
         //收到心跳包
         if (pack.route === RouteCode.ROUTE_HEARTICK) {
             this._logger.trace('_onWebSocketMessage:', session.ip, session.id, session.uid, pack);
@@ -560,6 +1528,32 @@ export class WssServer {
             this._sendHeartick(session, pack);//按照原样发回客户端
             return;
         }
+        //校验速率限制，集群内部包有签名校验且来自其它节点的汇总流量，不参与限制
+        if (!RouteCode.isInner(pack.route) && !this._checkRateLimit(session, pack.route)) {
+            this._logger.warn('_onWebSocketMessage:', session.ip, session.id, session.uid, RouteCode.CODE_LIMIT.code, pack.route);
+            if (this._config.rateAction === 'close') {
+                session.close(RouteCode.CODE_LIMIT.code, RouteCode.CODE_LIMIT.data);
+            } else {
+                this.response(session, pack, new WssBridgeResponse(429, 'Too Many Requests'));
+            }
+            return;
+        }
+        //会话恢复包
+        if (pack.route === RouteCode.ROUTE_RESUME) {
+            this._logger.debug('_onWebSocketMessage:', session.ip, session.id, session.uid, pack);
+            this._resumeSession(session, pack);
+            return;
+        }
+        //确认送达包
+        if (pack.route === RouteCode.ROUTE_ACKNOWLEDGE) {
+            this._logger.trace('_onWebSocketMessage:', session.ip, session.id, session.uid, pack);
+            if (this._offlineStore && session.isBinded() && typeof pack.message.msgId === 'string') {
+                this._offlineStore.remove(session.uid.toString(), pack.message.msgId).catch((e) => {
+                    this._logger.error('_onWebSocketMessage:', session.ip, session.id, session.uid, pack, e);
+                });
+            }
+            return;
+        }
         //集群P2P包
         if (pack.route === RouteCode.ROUTE_INNERP2P) {
             if (this._validateInnerData(pack.message)) {
@@ -598,7 +1592,8 @@ export class WssServer {
             if (this._validateInnerData(pack.message)) {
                 if (this._remoteMap[pack.message.route]) {
                     this._logger.debug('_onWebSocketMessage:', session.ip, session.id, session.uid, pack);
-                    this._remoteMap[pack.message.route](this, session, new WssBridgePackData(pack.message.route, pack.reqId, pack.message.message));//调用远程方法
+                    const remotePack = new WssBridgePackData(pack.message.route, pack.reqId, pack.message.message);
+                    this._trackCall(session, remotePack, () => this._callListener(this._remoteMap[pack.message.route], this._remoteWares, session, remotePack));//调用远程方法
                 } else {
                     this._logger.error('_onWebSocketMessage:', session.ip, session.id, session.uid, RouteCode.CODE_REMOTE.code, pack);
                     session.close(RouteCode.CODE_REMOTE.code, RouteCode.CODE_REMOTE.data);
@@ -612,18 +1607,103 @@ export class WssServer {
         //自定义路由
         if (this._routerMap[pack.route]) {
             this._logger.debug('_onWebSocketMessage:', session.ip, session.id, session.uid, pack);
-            this._routerMap[pack.route](this, session, pack);//调用路由方法
+            this._trackCall(session, pack, () => this._callListener(this._routerMap[pack.route], this._routerWares, session, pack));//调用路由方法
             return;
         }
         //没找到路由
         this._logger.error('_onWebSocketMessage:', session.ip, session.id, session.uid, RouteCode.CODE_ROUTE.code, pack);
         session.close(RouteCode.CODE_ROUTE.code, RouteCode.CODE_ROUTE.data);
     }
+    /**
+     * 记录未完成的监听器，优雅关闭期间拒绝新的请求
+     * @param session 
+     * @param pack 
+     * @param call 
+     */
+    private _trackCall(session: WssSession, pack: WssBridgePackData, call: () => Promise<void>) {
+        if (this._shutdown) {
+            this.response(session, pack, new WssBridgeResponse(503, 'Service Unavailable'));
+            return;
+        }
+        const start = Date.now();
+        const promise = call();
+        this._pendingCalls.add(promise);
+        promise.then(() => {
+            this._pendingCalls.delete(promise);
+            if (this._metrics) this._metrics.observe('wss_handler_duration_seconds', { route: pack.route }, (Date.now() - start) / 1000);
+        });
+    }
+    /**
+     * 依次执行中间件后调用路由监听器或远程监听器，并根据返回值或异常自动响应请求方
+     * @param handle 
+     * @param wares 共用的中间件
+     * @param session 
+     * @param pack 
+     */
+    private async _callListener(handle: RouteHandle, wares: WssMiddleware[], session: WssSession, pack: WssBridgePackData) {
+        try {
+            const chain = handle.options.middlewares ? wares.concat(handle.options.middlewares) : wares;
+            let called = -1;
+            const dispatch = async (index: number): Promise<any> => {
+                if (index <= called) throw Error('next() called multiple times');
+                called = index;
+                if (index < chain.length) {
+                    return chain[index](this, session, pack, () => dispatch(index + 1));
+                }
+                if (handle.schema) {
+                    const errors = handle.schema.validate(pack.message);
+                    if (errors.length > 0) {
+                        this._logger.debug('_callListener:', session.ip, session.id, session.uid, pack.route, 400, errors);
+                        return new WssBridgeResponse(400, { message: 'Bad Request', errors: errors });
+                    }
+                }
+                return handle.listener(this, session, pack);
+            };
+            const result = await dispatch(0);
+            if (result !== undefined) {
+                this.response(session, pack, result instanceof WssBridgeResponse ? result : new WssBridgeResponse(200, result));
+            }
+        } catch (e) {
+            if (e instanceof WssServerError) {
+                this._logger.debug('_callListener:', session.ip, session.id, session.uid, pack.route, e.code, e.data);
+                this.response(session, pack, new WssBridgeResponse(e.code, e.data));
+            } else {
+                this._logger.error('_callListener:', session.ip, session.id, session.uid, pack.route, e);
+                this.response(session, pack, new WssBridgeResponse(500, 'Internal Server Error'));//不将异常信息暴露给请求方
+            }
+        }
+    }
+    /**
+     * 创建路由监听器或远程监听器的注册信息
+     * @param listener 
+     * @param options 
+     */
+    private _createRouteHandle(listener: RouterListener | RemoteListener, options: WssRouteOptions): RouteHandle {
+        const schema = options.schema ? (options.schema instanceof JsonSchema ? options.schema : new JsonSchema(options.schema)) : null;
+        return { listener: listener, options: options, schema: schema };
+    }
+    /**
+     * 按照session使用的加密模式序列化并发送数据包
+     * @param session 
+     * @param pack 
+     * @param cache 向多个session发送同一个数据包时传入同一个对象，每种加密模式只序列化一次
+     */
+    private _sendPack(session: WssSession, pack: WssBridgePackData, cache?: { [key: string]: ArrayBuffer | string }, codec: WssBridgeCodec = this._config.codec) {
+        const cipher = session.cipher || this._config.cipher;
+        let data = cache ? cache[cipher] : undefined;
+        if (data === undefined) {
+            data = WssBridgePackData.serialize(pack, this._config.pwd, this._config.binary, cipher, codec);
+            if (cache) cache[cipher] = data;
+        }
+        session.send(data, this._getSendOptions(data));
+        if (this._metrics) this._metrics.inc('wss_messages_out_total', { route: pack.route });
+    }
     /**
      * 返回发送数据到客户端websocket的选项
+     * @param data 二进制格式的编解码器在未设置pwd时总是返回二进制结果
      */
-    private _getSendOptions(): { binary: boolean } {
-        return { binary: this._config.binary };
+    private _getSendOptions(data: ArrayBuffer | string): { binary: boolean } {
+        return { binary: this._config.binary || typeof data !== 'string' };
     }
     /**
      * 响应心跳包
@@ -632,8 +1712,7 @@ export class WssServer {
      */
     private _sendHeartick(session: WssSession, reqPack: WssBridgePackData) {
         const pack = new WssBridgePackData(RouteCode.ROUTE_HEARTICK, reqPack.reqId, reqPack.message);
-        const data = WssBridgePackData.serialize(pack, this._config.pwd, this._config.binary);
-        session.send(data, this._getSendOptions());
+        this._sendPack(session, pack);
         this._logger.trace('_sendHeartick:', session.ip, session.id, session.uid, pack);
     }
     /**
@@ -653,26 +1732,467 @@ export class WssServer {
         }, null, this);
     }
     /**
-     * 生成内部签名数据包
+     * 处理客户端的握手包，校验协议版本、编解码器，以及握手监听器，握手包与响应总是使用JSON编解码器
+     * @param session 
+     * @param pack 
+     */
+    private _handshake(session: WssSession, pack: WssBridgePackData) {
+        const clientInfo: WssBridgeHandshake = pack.message;
+        let reason: string = null;
+        if (typeof clientInfo.version !== 'number' || clientInfo.version < this._config.minVersion) {
+            reason = 'unsupported version';
+        } else if (clientInfo.codec !== this._config.codec.name) {
+            reason = 'unsupported codec';
+        } else if (this._handshakeListener && this._handshakeListener(this, session, clientInfo) === false) {
+            reason = 'rejected';
+        }
+        if (reason) {
+            this._logger.warn('_handshake:', session.ip, session.id, session.uid, RouteCode.CODE_VERSION.code, reason, clientInfo);
+            const message = { reason: reason, version: WssBridgePackData.PROTOCOL_VERSION, minVersion: this._config.minVersion, codec: this._config.codec.name };
+            this._sendPack(session, new WssBridgePackData(RouteCode.ROUTE_RESPONSE, pack.reqId, new WssBridgeResponse(WssBridgeResponse.CODE_UPGRADE.code, message)), undefined, WssBridgePackData.CODEC_JSON);
+            session.close(RouteCode.CODE_VERSION.code, RouteCode.CODE_VERSION.data);
+            return;
+        }
+        session.setClientInfo({ version: clientInfo.version, codec: clientInfo.codec, cipher: clientInfo.cipher, binary: clientInfo.binary, client: clientInfo.client || {} });
+        const message = { version: WssBridgePackData.PROTOCOL_VERSION, codec: this._config.codec.name, cipher: session.cipher || this._config.cipher };
+        this._sendPack(session, new WssBridgePackData(RouteCode.ROUTE_RESPONSE, pack.reqId, new WssBridgeResponse(200, message)), undefined, WssBridgePackData.CODEC_JSON);
+        this._logger.debug('_handshake:', session.ip, session.id, session.uid, session.clientInfo);
+    }
+    /**
+     * 按照session、路由、IP依次消耗令牌
+     * @param session 
+     * @param route 
+     * @returns 是否未超出速率限制
+     */
+    private _checkRateLimit(session: WssSession, route: string): boolean {
+        const routeRate = this._config.rateRoutes[route] || 0;
+        if (this._config.rateSession <= 0 && routeRate <= 0 && this._config.rateIP <= 0) return true;
+        const buckets = this._rateBuckets[session.id] || {};
+        this._rateBuckets[session.id] = buckets;
+        if (this._config.rateSession > 0) {
+            if (!buckets['']) buckets[''] = new TokenBucket(this._config.rateSession);
+            if (!buckets[''].consume()) return false;
+        }
+        if (routeRate > 0) {
+            if (!buckets[route]) buckets[route] = new TokenBucket(routeRate);
+            if (!buckets[route].consume()) return false;
+        }
+        if (this._config.rateIP > 0) {
+            const ip = this._limitIPs[session.id];
+            if (!this._ipBuckets[ip]) this._ipBuckets[ip] = new TokenBucket(this._config.rateIP);
+            if (!this._ipBuckets[ip].consume()) return false;
+        }
+        return true;
+    }
+    /**
+     * 返回用于IP限制的客户端地址：trustProxy为true时取x-forwarded-for中的第一个地址，否则为连接的远端地址
+     * IPv4映射的IPv6地址转换为IPv4地址，其它IPv6地址保留完整格式
+     * @param request 
+     */
+    private _getLimitIP(request: http.IncomingMessage): string {
+        let ip = request.socket.remoteAddress || '';
+        if (this._config.trustProxy) {
+            const header = request.headers['x-forwarded-for'];
+            const first = (Array.isArray(header) ? header.join(',') : header || '').split(',')[0].trim();
+            if (first) ip = first;
+        }
+        ip = ip.toLowerCase();
+        if (ip.indexOf('::ffff:') === 0 && ip.indexOf('.') > 0) ip = ip.substring(7);
+        return ip;
+    }
+    /**
+     * 按照devicePolicy判断已绑定的旧session是否会被新绑定的session替换
+     * @param oldDevice 
+     * @param oldPlatform 
+     * @param device 
+     * @param platform 
+     */
+    private _isReplaced(oldDevice: string, oldPlatform: string, device: string, platform: string): boolean {
+        switch (this._config.devicePolicy) {
+            case 'platform': return oldPlatform === platform;
+            case 'device': return oldDevice === device;
+            default: return true;
+        }
+    }
+    /**
+     * 判断设备是否匹配推送的过滤条件
+     * @param filter 
+     * @param device 
+     * @param platform 
+     */
+    private _matchDevice(filter: WssDeviceFilter, device: string, platform: string): boolean {
+        if (!filter) return true;
+        if (filter.devices && filter.devices.indexOf(device) < 0) return false;
+        if (filter.platforms && filter.platforms.indexOf(platform) < 0) return false;
+        return true;
+    }
+    /**
+     * 解绑session的uid
+     * @param session 
+     * @param syncRegistry 是否同步到集群在线注册表
+     */
+    private _unbindUid(session: WssSession, syncRegistry: boolean) {
+        if (!session.isBinded()) return;
+        this._logger.debug('unbindUid:', session.ip, session.id, session.uid);
+        const uid = session.uid.toString();
+        const sessions = this._sessionMap[uid];
+        if (sessions && sessions[session.id] === session) {
+            delete sessions[session.id];//从_sessionMap中移除
+            if (this._context.isEmptyObject(sessions)) delete this._sessionMap[uid];
+        }
+        if (syncRegistry && !this._sessionMap[uid] && !this._resumeUids[uid]) this._syncRegistry('unbindUid', session.uid);//本节点已没有该uid的session
+        session.unbindUid();
+        session.setResumeToken(null);//解绑后不可恢复
+        this._updatePresence(uid);
+    }
+    /**
+     * 根据本节点的session与等待恢复的会话更新uid的在线状态
+     * @param uid 
+     */
+    private _updatePresence(uid: string) {
+        const online = !!this._sessionMap[uid] || !!this._resumeUids[uid];
+        const info = this._presenceMap[uid];
+        if (online && (!info || info.status === 'offline')) {
+            this._presenceMap[uid] = { uid: uid, status: 'online', lastSeen: Date.now() };
+            this._onPresenceChange(this._presenceMap[uid]);
+        } else if (!online && info && info.status !== 'offline') {
+            info.status = 'offline';
+            info.lastSeen = Date.now();
+            this._onPresenceChange(info);
+        }
+    }
+    /**
+     * 推送在线状态给订阅者并通知监听器
+     * @param info 
+     */
+    private _onPresenceChange(info: PresenceInfo) {
+        const subs = this._presenceSubs[info.uid];
+        if (subs) {
+            const pack = new WssBridgePackData(this._config.presenceRoute, undefined, { uid: info.uid, status: info.status, lastSeen: info.lastSeen });
+            const cache = {};
+            for (let id in subs) {
+                this._sendPack(subs[id], pack, cache);
+            }
+        }
+        if (this._presenceListener) {
+            try {
+                this._presenceListener(this, { uid: info.uid, status: info.status, lastSeen: info.lastSeen });
+            } catch (e) {
+                this._logger.error('_onPresenceChange:', info, e);
+            }
+        }
+        this._logger.debug('_onPresenceChange:', info);
+    }
+    /**
+     * 已绑定uid的session断开时保存可恢复的会话状态
+     * @param session 
+     * @returns 是否保存了会话状态
+     */
+    private _saveResume(session: WssSession): boolean {
+        if (this._config.resumeGrace <= 0 || !session.isBinded() || !session.token) return false;
+        const sessions = this._sessionMap[session.uid.toString()];
+        if (!sessions || sessions[session.id] !== session) return false;
+        const state: ResumeState = { uid: session.uid.toString(), device: session.device, platform: session.platform, context: {}, channels: [], expire: Date.now() + this._config.resumeGrace, buffer: [] };
+        session.eachContext((key, value) => { state.context[key] = value });
+        session.eachChannel((gid) => { state.channels.push(gid.toString()) });
+        this._resumeMap[session.token] = state;
+        const tokens = this._resumeUids[state.uid] || {};
+        tokens[session.token] = true;
+        this._resumeUids[state.uid] = tokens;
+        for (let i = 0; i < state.channels.length; i++) {
+            const tokens = this._resumeGids[state.channels[i]] || {};
+            tokens[session.token] = true;
+            this._resumeGids[state.channels[i]] = tokens;
+        }
+        this._logger.debug('_saveResume:', session.ip, session.id, session.uid, session.token);
+        return true;
+    }
+    /**
+     * 取出并删除等待恢复的会话状态
+     * @param token 
+     */
+    private _takeResume(token: string): ResumeState {
+        const state = this._resumeMap[token];
+        if (!state || !Object.prototype.hasOwnProperty.call(this._resumeMap, token)) return null;//令牌由客户端传入，排除原型上的属性
+        delete this._resumeMap[token];
+        const uidTokens = this._resumeUids[state.uid];
+        if (uidTokens) {
+            delete uidTokens[token];
+            if (this._context.isEmptyObject(uidTokens)) delete this._resumeUids[state.uid];
+        }
+        for (let i = 0; i < state.channels.length; i++) {
+            const tokens = this._resumeGids[state.channels[i]];
+            if (!tokens) continue;
+            delete tokens[token];
+            if (this._context.isEmptyObject(tokens)) delete this._resumeGids[state.channels[i]];
+        }
+        return state;
+    }
+    /**
+     * 作废超时未恢复的会话，本节点已没有该uid的session时从注册表中解绑并更新在线状态
+     * @param token 
+     */
+    private _expireResume(token: string) {
+        const state = this._takeResume(token);
+        if (!state) return;
+        if (!this._sessionMap[state.uid] && !this._resumeUids[state.uid]) this._syncRegistry('unbindUid', state.uid);
+        this._updatePresence(state.uid);
+        this._logger.debug('_expireResume:', state.uid, token);
+    }
+    /**
+     * 缓存等待恢复期间的推送
+     * @param token 
+     * @param pack 
+     */
+    private _bufferResume(token: string, pack: WssBridgePackData) {
+        const state = this._resumeMap[token];
+        if (!state) return;
+        state.buffer.push(pack);
+        if (state.buffer.length > this._config.resumeBuffer) state.buffer.shift();
+    }
+    /**
+     * 发送等待恢复期间缓存的推送
+     * @param session 
+     * @param state 
+     */
+    private _flushResume(session: WssSession, state: ResumeState) {
+        if (!state) return;
+        for (let i = 0; i < state.buffer.length; i++) {
+            this._sendPack(session, state.buffer[i]);
+        }
+        this._logger.debug('_flushResume:', session.ip, session.id, session.uid, state.buffer.length);
+    }
+    /**
+     * 使用令牌恢复断线前的会话状态：绑定uid、恢复缓存的键值对数据、重新加入推送组、发送等待期间缓存的推送
+     * @param session 
+     * @param pack 
+     */
+    private _resumeSession(session: WssSession, pack: WssBridgePackData) {
+        const token = typeof pack.message.token === 'string' ? pack.message.token : null;
+        if (token && this._resumeMap[token] && this._resumeMap[token].expire < Date.now()) this._expireResume(token);//已超时但周期循环还未清除
+        const state = token ? this._takeResume(token) : null;
+        if (!state) {
+            this.response(session, pack, new WssBridgeResponse(404, 'Resume Token Not Found'));
+            return;
+        }
+        this.bindUid(session, state.uid, false, state.device, state.platform);
+        for (let key in state.context) {
+            session.setContext(key, state.context[key]);
+        }
+        for (let i = 0; i < state.channels.length; i++) {
+            this.joinChannel(session, state.channels[i]);
+        }
+        this.response(session, pack, new WssBridgeResponse(200, { uid: state.uid }));
+        this._flushResume(session, state);
+        this._logger.debug('_resumeSession:', session.ip, session.id, session.uid);
+    }
+    /**
+     * 保存并推送可靠消息
+     * @param item 
+     */
+    private async _pushReliable(item: OfflineMessage) {
+        try {
+            await this._offlineStore.save(item, this._config.offlineLimit);
+        } catch (e) {
+            this._logger.error('_pushReliable:', 'save failed, fallback to unreliable push', item, e);
+        }
+        const sessions = this.getSessions(item.uid, item.filter);
+        for (let i = 0; i < sessions.length; i++) {
+            this._sendOffline(sessions[i], item);
+        }
+    }
+    /**
+     * 重发uid全部未确认送达的消息
+     * @param session 
+     * @param uid 
+     */
+    private async _replayOffline(session: WssSession, uid: WssUIDLike) {
+        if (!this._offlineStore) return;
+        try {
+            const items = await this._offlineStore.list(uid.toString());
+            for (let i = 0; i < items.length; i++) {
+                if (session.uid !== uid) break;//重发过程中session已经解绑或者重新绑定
+                if (this._matchDevice(items[i].filter, session.device, session.platform)) this._sendOffline(session, items[i]);
+            }
+        } catch (e) {
+            this._logger.error('_replayOffline:', session.ip, session.id, uid, e);
+        }
+    }
+    /**
+     * 处理推送组变化事件：同步本节点session的推送组，推送给推送组成员并通知监听器
+     * @param event 
+     */
+    private _onChannelEvent(event: ChannelEvent) {
+        const sessions = this._sessionMap[event.uid];
+        if (event.type === 'join') {
+            for (let id in sessions) this.joinChannel(sessions[id], event.gid);
+        }
+        if (this._config.channelRoute) {
+            this.pushChannel(event.gid, this._config.channelRoute, event);
+        }
+        if (event.type === 'leave') {
+            for (let id in sessions) this.quitChannel(sessions[id], event.gid);
+        }
+        if (this._channelListener) {
+            try {
+                this._channelListener(this, event);
+            } catch (e) {
+                this._logger.error('_onChannelEvent:', event, e);
+            }
+        }
+        this._logger.debug('_onChannelEvent:', event);
+    }
+    /**
+     * 撤回或编辑消息
+     * @param action 
+     * @param cid 
+     * @param seq 
+     * @param uid 
+     * @param fields 
+     */
+    private async _modifyMessage(action: string, cid: string, seq: number, uid: WssUIDLike, fields: { content?: any; editTime?: number; recalled?: boolean }): Promise<ChatMessage> {
+        if (!this._messageStore) throw Error('message store not found');
+        let message: ChatMessage;
+        try {
+            message = await this._messageStore.get(cid, seq);
+            if (!message || message.from !== uid.toString() || message.recalled) return null;
+            if (this._config.recallTimeout > 0 && message.time + this._config.recallTimeout < Date.now()) return null;
+            message = await this._messageStore.update(cid, seq, fields);
+        } catch (e) {
+            this._logger.error(action + ':', cid, seq, uid, e);
+            return null;
+        }
+        if (message) this._pushMessage(this._config.messageRoute, message, message);
+        this._logger.debug(action + ':', cid, seq, uid);
+        return message;
+    }
+    /**
+     * 推送数据到会话的全部成员：私聊为双方的全部设备，推送组消息为本节点的该推送组
+     * @param route 
+     * @param message 用于确定推送目标的消息
+     * @param data 推送的数据
+     */
+    private _pushMessage(route: string, message: ChatMessage, data: any) {
+        if (message.type === 'private') {
+            this.pushSession(message.to, route, data);
+            if (message.to !== message.from) this.pushSession(message.from, route, data);
+        } else {
+            this.pushChannel(message.to, route, data);
+        }
+    }
+    /**
+     * 返回session绑定的uid，未绑定时以状态码401拒绝请求
+     * @param session 
+     */
+    private _requireUid(session: WssSession): string {
+        if (!session.isBinded()) throw new WssServerError(401, 'Unauthorized');
+        return session.uid.toString();
+    }
+    /**
+     * 判断session是否可以访问会话：私聊会话必须是会话的一方，推送组会话必须是推送组成员
+     * @param session 
+     * @param cid 
+     */
+    private async _canAccessCid(session: WssSession, cid: string): Promise<boolean> {
+        const uid = session.uid.toString();
+        if (cid.indexOf('p:') === 0) {
+            const pair = cid.substring(2);
+            if (pair.indexOf(uid + ':') === 0 && WssServer.privateCid(uid, pair.substring(uid.length + 1)) === cid) return true;
+            return pair.lastIndexOf(':' + uid) === pair.length - uid.length - 1 && WssServer.privateCid(pair.substring(0, pair.length - uid.length - 1), uid) === cid;
+        }
+        if (cid.indexOf('g:') === 0) {
+            const gid = cid.substring(2);
+            if (this._channelStore) return !!await this.getChannelMember(gid, uid);
+            const channel = this._channelMap[gid];
+            return !!channel && !!channel.sessions[session.id];
+        }
+        return false;
+    }
+    /**
+     * 发送一条可靠推送的消息
+     * @param session 
+     * @param item 
+     */
+    private _sendOffline(session: WssSession, item: OfflineMessage) {
+        const pack = new WssBridgePackData(item.route, undefined, item.message, item.msgId);
+        this._sendPack(session, pack);
+        this._logger.debug('_sendOffline:', session.ip, session.id, session.uid, pack);
+    }
+    /**
+     * 同步本节点的变化到集群在线注册表，同一个uid或gid的操作串行执行，避免重新登录时先发起的解绑晚于绑定完成
+     * @param action 
+     * @param key uid或gid
+     */
+    private _syncRegistry(action: 'bindUid' | 'unbindUid' | 'joinChannel' | 'quitChannel', key: WssUIDLike) {
+        if (!this._registry) return;
+        const name = (action === 'bindUid' || action === 'unbindUid' ? 'uid:' : 'gid:') + key.toString();
+        const task: Promise<void> = (this._registryTasks[name] || Promise.resolve()).then(() => this._registry[action](key.toString(), this._nodeUrl)).catch((e) => {
+            this._logger.error('_syncRegistry:', action, key, this._nodeUrl, e);
+        }).then(() => {
+            if (this._registryTasks[name] === task) delete this._registryTasks[name];//已是最后一个操作
+        });
+        this._registryTasks[name] = task;
+    }
+    /**
+     * 从集群在线注册表中筛选出持有uid或gid的节点，未设置注册表或查询失败时返回全部节点
+     * @param cluster 
+     * @param action 
+     * @param key uid或gid
+     */
+    private async _findClusterNodes(cluster: ClusterNode[], action: 'findUid' | 'findChannel', key: WssUIDLike): Promise<ClusterNode[]> {
+        if (!this._registry) return cluster;
+        let nodes: string[] = null;
+        try {
+            nodes = await this._registry[action](key.toString());
+        } catch (e) {
+            this._logger.error('_findClusterNodes:', action, key, e);
+        }
+        return nodes ? cluster.filter((node) => nodes.indexOf(node.url) >= 0) : cluster;
+    }
+    /**
+     * 生成内部签名数据包，签名覆盖除sign以外的全部字段
      * @param tid 
      * @param route 
      * @param message 
      */
     private _generateInnerData(tid: WssUIDLike, route: string, message: any): InnerData {
         const data: InnerData = {};
-        if (tid) data.tid = tid;
+        if (tid !== undefined && tid !== null) data.tid = tid;//uid可能为0或空字符串
         data.route = route;
         data.message = message;
         data.word = uuid();
-        data.sign = this._context.getMd5(route + data.word + this._config.secret);
+        data.time = Date.now();
+        data.sign = this._signInnerData(data, this._config.secret);
         return data;
     }
     /**
-     * 校验内部签名数据包
+     * 校验内部签名数据包：签名是否匹配secret或secrets中的任一密钥、时间是否在允许的时钟偏差内、随机串是否已经使用过
      * @param data 
      */
     private _validateInnerData(data: InnerData): boolean {
-        return this._context.getMd5(data.route + data.word + this._config.secret) === data.sign;
+        if (!data || typeof data.word !== 'string' || typeof data.time !== 'number' || typeof data.sign !== 'string') return false;
+        const now = Date.now();
+        if (Math.abs(now - data.time) > this._config.innerSkew) return false;
+        if (this._innerWords[data.word]) return false;
+        const secrets = [this._config.secret].concat(this._config.secrets || []);
+        const actual = Buffer.from(data.sign);
+        for (let i = 0; i < secrets.length; i++) {
+            const expect = Buffer.from(this._signInnerData(data, secrets[i]));
+            if (expect.length === actual.length && crypto.timingSafeEqual(expect, actual)) {//恒定时间比较，防止时序攻击
+                this._innerWords[data.word] = data.time + this._config.innerSkew;
+                return true;
+            }
+        }
+        return false;
+    }
+    /**
+     * 计算内部数据包的签名
+     * @param data 
+     * @param secret 
+     */
+    private _signInnerData(data: InnerData, secret: string): string {
+        const body = this._context.stableStringify({ tid: data.tid, route: data.route, message: data.message, word: data.word, time: data.time });
+        return this._context.getHmacSha256(body, String(secret));
     }
     /**
      * 返回Logger实例
@@ -682,6 +2202,49 @@ export class WssServer {
     public get server() { return this._server; }
     public get wssPwd() { return this._config.pwd; }
     public get wssSecret() { return this._config.secret; }
+    public get nodeUrl() { return this._nodeUrl; }
+    /**
+     * 从握手请求中读取认证令牌，依次查找：查询参数name、请求头authorization（Bearer方式）、请求头name、cookie中的name
+     * @param request 
+     * @param name 
+     */
+    public static readAuthToken(request: http.IncomingMessage, name: string = 'token'): string {
+        const index = request.url ? request.url.indexOf('?') : -1;
+        if (index >= 0) {
+            const value = new URLSearchParams(request.url.substring(index + 1)).get(name);
+            if (value) return value;
+        }
+        const authorization = request.headers['authorization'];
+        if (authorization && authorization.indexOf('Bearer ') === 0) return authorization.substring(7).trim();
+        const header = request.headers[name.toLowerCase()];
+        if (header) return Array.isArray(header) ? header[0] : header;
+        const cookie = request.headers['cookie'];
+        if (cookie) {
+            const items = cookie.split(';');
+            for (let i = 0; i < items.length; i++) {
+                const pos = items[i].indexOf('=');
+                if (pos > 0 && items[i].substring(0, pos).trim() === name) return decodeURIComponent(items[i].substring(pos + 1).trim());
+            }
+        }
+        return null;
+    }
+    /**
+     * 返回两个uid之间私聊会话的id，与参数顺序无关
+     * @param uid1 
+     * @param uid2 
+     */
+    public static privateCid(uid1: WssUIDLike, uid2: WssUIDLike): string {
+        const a = uid1.toString();
+        const b = uid2.toString();
+        return 'p:' + (a < b ? a + ':' + b : b + ':' + a);
+    }
+    /**
+     * 返回推送组会话的id
+     * @param gid 
+     */
+    public static channelCid(gid: WssUIDLike): string {
+        return 'g:' + gid.toString();
+    }
 }
 /**
  * 状态码范围参考： https://tools.ietf.org/html/rfc6455#section-7.4.2
@@ -693,6 +2256,9 @@ class RouteCode {
      */
     public static ROUTE_HEARTICK = '$heartick$';//心跳包路由
     public static ROUTE_RESPONSE = '$response$';//响应请求路由
+    public static ROUTE_ACKNOWLEDGE = '$acknowledge$';//确认送达路由
+    public static ROUTE_RESUME = '$resume$';//会话恢复路由
+    public static ROUTE_HANDSHAKE = '$handshake$';//握手路由
     public static ROUTE_INNERP2P = '$innerP2P$';//集群点对点消息路由
     public static ROUTE_INNERGRP = '$innerGRP';//集群分组消息路由
     public static ROUTE_INNERALL = '$innerALL$';//集群广播消息路由
@@ -713,4 +2279,79 @@ class RouteCode {
     public static CODE_SOCKET = { code: 4007, data: 'socket error' };
     public static CODE_TIMEOUT = { code: 4008, data: 'timeout error' };
     public static CODE_NEWBIND = { code: 4009, data: 'newbind error' };
+    public static CODE_LIMIT = { code: 4010, data: 'limit error' };
+    public static CODE_VERSION = { code: 4011, data: 'version error' };
+    public static CODE_CIPHER = { code: 4012, data: 'cipher error' };
+    public static CODE_GOAWAY = { code: 1001, data: 'going away' };//服务端优雅关闭，使用标准状态码Going Away
+    /**
+     * 是否为保留路由
+     * @param route 
+     */
+    public static isReserved(route: string): boolean {
+        return route === RouteCode.ROUTE_HEARTICK || route === RouteCode.ROUTE_RESPONSE || route === RouteCode.ROUTE_ACKNOWLEDGE ||
+            route === RouteCode.ROUTE_RESUME || route === RouteCode.ROUTE_HANDSHAKE || route === RouteCode.ROUTE_INNERP2P ||
+            route === RouteCode.ROUTE_INNERGRP || route === RouteCode.ROUTE_INNERALL || route === RouteCode.ROUTE_INNERRMC;
+    }
+    /**
+     * 是否为集群内部路由
+     * @param route 
+     */
+    public static isInner(route: string): boolean {
+        return route === RouteCode.ROUTE_INNERP2P || route === RouteCode.ROUTE_INNERGRP || route === RouteCode.ROUTE_INNERALL || route === RouteCode.ROUTE_INNERRMC;
+    }
+}
+/**
+ * 令牌桶，每秒补充rate个令牌，最多保存rate个令牌
+ */
+class TokenBucket {
+    private _rate: number;//每秒补充的令牌数量
+    private _tokens: number;//当前令牌数量
+    private _time: number;//最近补充令牌的时间
+    public constructor(rate: number) {
+        this._rate = rate;
+        this._tokens = rate;
+        this._time = Date.now();
+    }
+    /**
+     * 消耗一个令牌
+     * @returns 是否有可用的令牌
+     */
+    public consume(): boolean {
+        this.refill();
+        if (this._tokens < 1) return false;
+        this._tokens -= 1;
+        return true;
+    }
+    /**
+     * 令牌是否已经补满
+     */
+    public isFull(): boolean {
+        this.refill();
+        return this._tokens >= this._rate;
+    }
+    private refill() {
+        const now = Date.now();
+        this._tokens = Math.min(this._rate, this._tokens + (now - this._time) * this._rate / 1000);
+        this._time = now;
+    }
+}
+/**
+ * 等待恢复的会话状态
+ */
+interface ResumeState {
+    uid: string;//绑定的uid
+    device: string;//绑定的设备id
+    platform: string;//绑定的平台
+    context: { [key: string]: any };//缓存的键值对数据
+    channels: string[];//加入的推送组
+    expire: number;//可恢复的截止时间
+    buffer: WssBridgePackData[];//等待期间缓存的推送
+}
+/**
+ * 路由监听器或远程监听器的注册信息
+ */
+interface RouteHandle {
+    listener: RouterListener | RemoteListener;
+    options: WssRouteOptions;
+    schema: JsonSchema;
 }
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 import WebSocket from 'ws';
 import type { ObjectId } from 'mongodb';
+import type { WssBridgeCipher, WssBridgeHandshake } from '../client/AllExport';
 
 export interface WssUIDLike { toString(): string; }
 
@@ -13,10 +14,16 @@ export class WssSession {
     private _socket: WebSocket;//绑定的套接字
     private _ip: string;//绑定的IP地址
     private _uid: WssUIDLike;//绑定的用户ID
+    private _device: string;//绑定uid时指定的设备id
+    private _platform: string;//绑定uid时指定的平台，如：ios、android、web、desktop
+    private _bindTime: number;//绑定uid的时间
     private _context: { [key: string]: any };//缓存的自定义数据
     private _channel: { [key: string]: boolean };//加入的自定义群组
     private _reqIdList: number[];//最近N个请求id（防止被重复ID的包攻击，其它类型的攻击请使用第三方安全模块）
     private _lastHeart: number;//初始化最近收到心跳包的时间为创建时间
+    private _token: string;//断线重连后恢复会话的令牌
+    private _cipher: WssBridgeCipher;//客户端使用的加密模式，未收到客户端数据包时为null
+    private _clientInfo: WssBridgeHandshake;//客户端握手时发送的信息，未握手时为null
     /**
      * @param socket 
      * @param ip 
@@ -26,10 +33,16 @@ export class WssSession {
         this._socket = socket;
         this._ip = ip;
         this._uid = null;
+        this._device = null;
+        this._platform = null;
+        this._bindTime = 0;
         this._context = {};
         this._channel = {};
         this._reqIdList = [];
         this._lastHeart = Date.now();
+        this._token = null;
+        this._cipher = null;
+        this._clientInfo = null;
     }
     /**
      * 使用WebSocket发送数据
@@ -65,14 +78,20 @@ export class WssSession {
      * 绑定用户ID
      * @param uid 
      */
-    public bindUid(uid: WssUIDLike) {
+    public bindUid(uid: WssUIDLike, device: string = null, platform: string = null) {
         this._uid = uid;
+        this._device = device;
+        this._platform = platform;
+        this._bindTime = Date.now();
     }
     /**
      * 解绑用户ID
      */
     public unbindUid() {
         this._uid = null;
+        this._device = null;
+        this._platform = null;
+        this._bindTime = 0;
     }
     /**
      * 缓存键值对数据
@@ -96,6 +115,15 @@ export class WssSession {
     public delContext(key: string) {
         delete this._context[key];
     }
+    /**
+     * 遍历缓存的全部键值对数据
+     * @param callback 
+     */
+    public eachContext(callback: (key: string, value: any) => void) {
+        for (let key in this._context) {
+            callback(key, this._context[key]);
+        }
+    }
     /**
      * 加入指定推送组
      * @param gid 
@@ -135,6 +163,27 @@ export class WssSession {
             return true;
         }
     }
+    /**
+     * 设置断线重连后恢复会话的令牌
+     * @param token 
+     */
+    public setResumeToken(token: string) {
+        this._token = token;
+    }
+    /**
+     * 设置客户端使用的加密模式，向该session发送数据时使用相同的模式
+     * @param cipher 
+     */
+    public setCipher(cipher: WssBridgeCipher) {
+        this._cipher = cipher;
+    }
+    /**
+     * 设置客户端握手时发送的信息
+     * @param clientInfo 
+     */
+    public setClientInfo(clientInfo: WssBridgeHandshake) {
+        this._clientInfo = clientInfo;
+    }
     /**
      * 更新最近收到心跳包的时间
      */
@@ -157,5 +206,12 @@ export class WssSession {
     public get id() { return this._id; }
     public get ip() { return this._ip; }
     public get uid() { return this._uid; }
+    public get device() { return this._device; }
+    public get platform() { return this._platform; }
+    public get bindTime() { return this._bindTime; }
+    public get token() { return this._token; }
+    public get cipher() { return this._cipher; }
+    public get clientInfo() { return this._clientInfo; }
+    public get version() { return this._clientInfo ? this._clientInfo.version : 1; }//未握手的旧版本客户端为1
     public get ouid() { return <ObjectId>this._uid; }
 }
\ No newline at end of file